@@ -0,0 +1,210 @@
+/**
+ * This module compiles checkers to specialized JavaScript, with property checks and literal
+ * comparisons inlined, for checking values faster than the closures built by getChecker().
+ */
+import {BasicType, basicTypes, CheckerFunc, getFlatIface, getNamedType, getRootChecker, ICheckOptions, ITypeSuite,
+        TArray, TEnumLiteral, TEnumType, TIface, TLiteral, TName, TOptional, TRefine, TType, TUnion} from "./types";
+import {IContext, NoopContext} from "./util";
+
+/**
+ * Returns a checker with the same results as getRootChecker(), which uses compiled code when
+ * only the result is needed, i.e. for a NoopContext. When details of errors are collected, the
+ * interpreted checker is used, so that they are identical.
+ */
+export function getCompiledChecker(ttype: TType, suite: ITypeSuite, strict: boolean,
+                                   options: ICheckOptions): CheckerFunc {
+  const interpreted = getRootChecker(ttype, suite, strict, options);
+  const compiled = compileChecker(ttype, suite, strict, options);
+  return (value: any, ctx: IContext) => ctx instanceof NoopContext ? compiled(value, ctx) : interpreted(value, ctx);
+}
+
+/**
+ * Returns a checker compiled to JavaScript, which returns whether a value satisfies the type, but
+ * only reports failures to ctx (which must be a NoopContext) for the parts it doesn't compile.
+ */
+export function compileChecker(ttype: TType, suite: ITypeSuite, strict: boolean,
+                               options: ICheckOptions): CheckerFunc {
+  const compiler = new CheckerCompiler(suite, strict, options);
+  return new Function("r", compiler.getSource(ttype))(compiler.runtime);
+}
+
+/**
+ * Returns the JavaScript generated by compileChecker(), e.g. for debugging. It is the body of a
+ * function which takes the array "r" of values the code uses, and returns the checker.
+ */
+export function getCompiledSource(ttype: TType, suite: ITypeSuite, strict: boolean,
+                                  options: ICheckOptions): string {
+  return new CheckerCompiler(suite, strict, options).getSource(ttype);
+}
+
+// Expressions to check values of basic types, with "v" standing for the value.
+const basicExpressions: {[name: string]: string} = {
+  any: "true",
+  unknown: "true",
+  number: `typeof v === "number"`,
+  object: `typeof v === "object" && v !== null`,
+  boolean: `typeof v === "boolean"`,
+  string: `typeof v === "string"`,
+  symbol: `typeof v === "symbol"`,
+  bigint: `typeof v === "bigint"`,
+  void: "v == null",
+  undefined: "v === undefined",
+  null: "v === null",
+  never: "false",
+};
+
+// A type found in the suite, for which a function is generated.
+interface INamedFunction {
+  name: string;
+  // Set while the function's body is being generated, to recognize recursive types.
+  inProgress: boolean;
+  // Whether the type refers to itself, so that its checks need to handle circular references.
+  isRecursive: boolean;
+}
+
+/**
+ * Generates the source of a checker function. Each interface or array type gets a function of
+ * its own, which other checks call, while checks of basic types and literals are inlined. Types
+ * it doesn't compile use their interpreted checkers, which generated code gets from the runtime
+ * array "r", along with other values it uses.
+ */
+class CheckerCompiler {
+  // Values used by the generated code, which it gets as "r".
+  public readonly runtime: any[] = [];
+  private _functions: string[] = [];
+  private _named = new Map<TType, INamedFunction>();
+
+  constructor(private _suite: ITypeSuite, private _strict: boolean, private _options: ICheckOptions) {}
+
+  public getSource(ttype: TType): string {
+    // The root type is tracked for circular references like named types, as by getRootChecker().
+    const isNamed = Object.keys(this._suite).some((n) => this._suite[n] === ttype);
+    const expr = isNamed ? `${this._getNamedFunction(ttype)}(v, ctx)` : this._compile(ttype, "v");
+    return `"use strict";\n${this._functions.join("\n")}\nreturn function check(v, ctx) {\n` +
+      `  return Boolean(${expr});\n};`;
+  }
+
+  // Returns a JavaScript expression which is truthy if the value in variable v satisfies ttype.
+  private _compile(ttype: TType, v: string): string {
+    if (ttype instanceof TName) {
+      if (ttype.typeArgs) { return this._fallback(ttype, v); }
+      const named = getNamedType(this._suite, ttype.name);
+      // Names of basic types are inlined, but other named types get a function.
+      return named instanceof BasicType ? this._compile(named, v) : `${this._getNamedFunction(named)}(${v}, ctx)`;
+    } else if (ttype instanceof BasicType) {
+      const basicName = Object.keys(basicExpressions).find((n) => basicTypes[n] === ttype);
+      if (basicName === undefined) { return `${this._ref(ttype.validator)}(${v})`; }
+      return `(${basicExpressions[basicName].replace(/\bv\b/g, v)})`;
+    } else if (ttype instanceof TLiteral || ttype instanceof TEnumLiteral) {
+      const value = ttype instanceof TLiteral ? ttype.value : ttype._getValue(this._suite);
+      return `(${v} === ${this._literal(value)})`;
+    } else if (ttype instanceof TEnumType) {
+      return `${this._ref(ttype.validValues)}.has(${v})`;
+    } else if (ttype instanceof TUnion) {
+      return `(${ttype.ttypes.map((t) => this._compile(t, v)).join(" || ")})`;
+    } else if (ttype instanceof TOptional) {
+      return `(${v} === undefined || ${this._compile(ttype.ttype, v)})`;
+    } else if (ttype instanceof TRefine) {
+      return `(${this._compile(ttype.ttype, v)} && ${this._ref(ttype.predicate)}(${v}))`;
+    } else if (ttype instanceof TArray) {
+      return `${this._addFunction([
+        `if (!Array.isArray(v)) { return false; }`,
+        `for (var i = 0; i < v.length; i++) {`,
+        `  if (!${this._compile(ttype.ttype, "v[i]")}) { return false; }`,
+        `}`,
+      ])}(${v}, ctx)`;
+    } else if (ttype instanceof TIface && this._canCompileIface(ttype)) {
+      return `${this._addFunction(this._compileIface(ttype))}(${v}, ctx)`;
+    }
+    return this._fallback(ttype, v);
+  }
+
+  // Interfaces are compiled unless they need to know about the properties of the types they are
+  // combined with, which is the case for index signatures, and in strict mode, for bases.
+  private _canCompileIface(ttype: TIface): boolean {
+    if (ttype.bases.length && this._strict) { return false; }
+    try {
+      return getFlatIface(ttype, this._suite).indexSignatures.length === 0 && ttype.bases.every((b) => {
+        const baseType = getNamedType(this._suite, b);
+        return baseType instanceof TIface && this._canCompileIface(baseType);
+      });
+    } catch (e) {
+      return false;
+    }
+  }
+
+  private _compileIface(ttype: TIface): string[] {
+    const lines = [`if (typeof v !== "object" || v === null) { return false; }`, `var p;`];
+    for (const base of ttype.bases) {
+      // As in TIface.getChecker(), bases are checked without the handling of circular references
+      // that named types get.
+      const baseType = getNamedType(this._suite, base) as TIface;
+      lines.push(`if (!${this._addFunction(this._compileIface(baseType))}(v, ctx)) { return false; }`);
+    }
+    for (const prop of ttype.props) {
+      // As in TIface.getChecker(), a property is required if its type doesn't allow undefined.
+      const propChecker = prop.ttype.getChecker(this._suite, this._strict, undefined, this._options);
+      const isRequired = !prop.isOpt && !propChecker(undefined, new NoopContext());
+      lines.push(`p = v[${JSON.stringify(prop.name)}];`);
+      lines.push(`if (p === undefined) { ${isRequired ? "return false;" : ""} }` +
+        ` else if (!${this._compile(prop.ttype, "p")}) { return false; }`);
+    }
+    if (this._strict) {
+      const allowed = new Set(ttype.props.map((p) => p.name));
+      lines.push(`for (var k in v) { if (!${this._ref(allowed)}.has(k)) { return false; } }`);
+    }
+    return lines;
+  }
+
+  // Returns the name of the function checking a type from the suite, generating it if needed.
+  private _getNamedFunction(ttype: TType): string {
+    let named = this._named.get(ttype);
+    if (named) {
+      if (named.inProgress) { named.isRecursive = true; }
+    } else {
+      named = {name: `n${this._named.size}`, inProgress: true, isRecursive: false};
+      this._named.set(ttype, named);
+      const expr = this._compile(ttype, "v");
+      named.inProgress = false;
+      // Recursive types are checked as getCircularSafeChecker() does in interpreted checkers.
+      this._functions.push(`function ${named.name}(v, ctx) {`, ...indent(named.isRecursive ? [
+        `if (typeof v !== "object" || v === null) { return ${expr}; }`,
+        `if (!ctx.enter(v, ${this._ref(ttype)})) { return ctx.circular(); }`,
+        `var ok = ${expr};`,
+        `ctx.leave(v);`,
+        `return ok;`,
+      ] : [`return ${expr};`]), `}`);
+    }
+    return named.name;
+  }
+
+  // Adds a function with the given body, taking arguments (v, ctx), and returns its name.
+  private _addFunction(body: string[]): string {
+    const name = `f${this._functions.length}`;
+    this._functions.push(`function ${name}(v, ctx) {`, ...indent(body), `  return true;`, `}`);
+    return name;
+  }
+
+  // Types which aren't compiled use their interpreted checkers. Each call gets a fresh context,
+  // since failures of other checks may have been reported to it.
+  private _fallback(ttype: TType, v: string): string {
+    const checker = ttype.getChecker(this._suite, this._strict, undefined, this._options);
+    return `${this._ref(checker)}(${v}, ctx.createContext())`;
+  }
+
+  private _literal(value: any): string {
+    const isPlain = typeof value === "string" || typeof value === "boolean" || value === null ||
+      (typeof value === "number" && isFinite(value));
+    return isPlain ? JSON.stringify(value) : this._ref(value);
+  }
+
+  // Returns an expression for getting the given value from the runtime array.
+  private _ref(value: any): string {
+    this.runtime.push(value);
+    return `r[${this.runtime.length - 1}]`;
+  }
+}
+
+function indent(lines: string[]): string[] {
+  return lines.map((line) => `  ${line}`);
+}
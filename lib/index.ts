@@ -1,36 +1,92 @@
-import {basicTypes, CheckerFunc, ITypeSuite, TFunc, TIface, TType} from "./types";
-import {DetailContext, IErrorDetail, NoopContext} from "./util";
+import {basicTypes, CheckerFunc, CircularReferenceError, ConverterFunc, getRootChecker, ICheckOptions, IConvertOptions,
+        ITypeSuite, MatcherFunc, TArray, TFunc, TGeneric, TIface, TIndexed, TName, TOptional, TOverloads, TPromise,
+        TReadonly, TType, TUnion, TypeSpec} from "./types";
+import {getCompiledChecker} from "./compile";
+import {DetailContext, IErrorDetail, NoopContext, VError} from "./util";
 
 /**
  * Export functions used to define interfaces.
  */
 export {
   TArray, TEnumType, TEnumLiteral, TFunc, TIface, TLiteral, TName, TOptional, TParam, TParamList,
-  TProp, TTuple, TType, TUnion, TIntersection,
-  array, enumlit, enumtype, func, iface, lit, name, opt, param, tuple, union, intersection, rest,
-  indexKey,
-  BasicType, ITypeSuite,
+  TProp, TTuple, TType, TUnion, TIntersection, TRefine, TInteger, TRange, TLength, TPattern, TFormat,
+  TTemplateLiteral, TGeneric, TGenericInstance, TMappedType, TPartial, TRequired, TPick, TOmit, TReadonly, TRecord,
+  TKeyOf, TIndexed, TMap, TSet, TPromise, TInstance, TIndexSignature, TLabeled, TOverloads,
+  array, enumlit, enumtype, func, iface, lit, name, opt, param, tuple, union, intersection, rest, refine,
+  integer, range, length, pattern, format, template, generic, partial, required, pick, omit, readonly,
+  record, keyof, indexed, map, set, promise, instance, index, labeled, overloads,
+  indexKey, formats,
+  BasicType, ITypeSuite, ICheckOptions, IConvertOptions, IOptionalOptions, IClasses,
 } from "./types";
 
 export { VError, IErrorDetail } from './util';
 
+export { suiteToJSONSchema, typeToJSONSchema, jsonSchemaToSuite, IJSONSchema, IJSONSchemaOptions,
+  IJSONSchemaImportOptions } from './json-schema';
+
+export { serializeSuite, deserializeSuite, ISerializedSuite, SerializedType, ISerializedNode } from './serialize';
+
+export { parseDeclarations, ParseError } from './parse';
+
 export interface ICheckerSuite {
   [name: string]: Checker;
 }
 
+/**
+ * Options that may be passed to `createCheckers()` along with type suites.
+ */
+export interface ICheckerOptions extends ICheckOptions {
+  // Compile checkers to JavaScript, which makes checks faster, but creating checkers slower.
+  compile?: boolean;
+}
+
+/**
+ * Options for `Checker.wrapFunction()` and `Checker.wrapObject()`.
+ */
+export interface IWrapOptions {
+  // What to do when a check fails: "throw" the error (the default), "pass" the value on silently,
+  // or call the given function with the error, e.g. to log it, and then pass the value on.
+  onFail?: "throw"|"pass"|((error: VError) => void);
+}
+
+/**
+ * Result of `Checker.match()`: the union member type that a value satisfies, or the errors if it
+ * satisfies none.
+ */
+export interface IUnionMatch {
+  // Index of the matched member type in the union, or -1 if none matched.
+  index: number;
+  // The matched member type, and its name if it's referenced by name, e.g. "Square".
+  ttype?: TType;
+  name?: string;
+  // Errors describing why the value matches no member type.
+  errors?: IErrorDetail[];
+}
+
 /**
  * Takes one of more type suites (e.g. a module generated by `ts-interface-builder`), and combines
  * them into a suite of interface checkers. If a type is used by name, that name should be present
  * among the passed-in type suites.
  *
+ * Options, such as the classes used by instance types, may be passed in among the suites, e.g.
+ * `createCheckers(suite, {classes: {Decimal}})`, or `{compile: true}` to compile checkers to
+ * JavaScript.
+ *
  * The returned object maps type names to Checker objects.
  */
-export function createCheckers(...typeSuite: ITypeSuite[]): ICheckerSuite {
+export function createCheckers(...args: Array<ITypeSuite|ICheckerOptions>): ICheckerSuite {
+  const typeSuite = args.filter((arg) => !isCheckerOptions(arg)) as ITypeSuite[];
+  const options = args.filter(isCheckerOptions);
   const fullSuite: ITypeSuite = Object.assign({}, basicTypes, ...typeSuite);
+  const checkerOptions: ICheckerOptions = {
+    classes: Object.assign({}, ...options.map((o) => o.classes)),
+    checkArity: options.some((o) => Boolean(o.checkArity)),
+    compile: options.some((o) => Boolean(o.compile)),
+  };
   const checkers: ICheckerSuite = {};
   for (const suite of typeSuite) {
     for (const name of Object.keys(suite)) {
-      checkers[name] = new Checker(fullSuite, suite[name]);
+      checkers[name] = new Checker(fullSuite, suite[name], "value", checkerOptions);
     }
   }
   return checkers;
@@ -44,16 +100,23 @@ export class Checker {
   private props: Map<string, TType> = new Map();
   private checkerPlain: CheckerFunc;
   private checkerStrict: CheckerFunc;
+  // Converters are only built when needed, keyed by strictness and conversion options.
+  private converters: Map<string, ConverterFunc> = new Map();
+  // Matchers for match() and strictMatch(), keyed by strictness.
+  private matchers: Map<boolean, MatcherFunc> = new Map();
+  private _allowCircular: boolean = true;
 
   // Create checkers by using `createCheckers()` function.
-  constructor(private suite: ITypeSuite, private ttype: TType, private _path: string = 'value') {
+  constructor(private suite: ITypeSuite, private ttype: TType, private _path: string = 'value',
+              private _options: ICheckerOptions = {}) {
     if (ttype instanceof TIface) {
       for (const p of ttype.props) {
         this.props.set(p.name, p.ttype);
       }
     }
-    this.checkerPlain = this.ttype.getChecker(suite, false);
-    this.checkerStrict = this.ttype.getChecker(suite, true);
+    const getChecker = _options.compile ? getCompiledChecker : getRootChecker;
+    this.checkerPlain = getChecker(this.ttype, suite, false, _options);
+    this.checkerStrict = getChecker(this.ttype, suite, true, _options);
   }
 
   /**
@@ -64,6 +127,16 @@ export class Checker {
     this._path = path;
   }
 
+  /**
+   * Set whether values may contain circular references. By default they may, and a value reached
+   * through a circular reference is valid if it's checked against the same recursive type it's
+   * already being checked against. If disallowed, such references fail with an error like
+   * "value.parent.child is a circular reference to value.child".
+   */
+  public setAllowCircular(allow: boolean) {
+    this._allowCircular = allow;
+  }
+
   /**
    * Check that the given value satisfies this checker's type, or throw Error.
    */
@@ -74,7 +147,7 @@ export class Checker {
    * true or false, does not produce an error message, and is fast both on success and on failure.
    */
   public test(value: any): boolean {
-    return this.checkerPlain(value, new NoopContext());
+    return this.checkerPlain(value, new NoopContext(this._allowCircular));
   }
 
   /**
@@ -97,7 +170,7 @@ export class Checker {
    * true or false, does not produce an error message, and is fast both on success and on failure.
    */
   public strictTest(value: any): boolean {
-    return this.checkerStrict(value, new NoopContext());
+    return this.checkerStrict(value, new NoopContext(this._allowCircular));
   }
 
   /**
@@ -108,6 +181,68 @@ export class Checker {
     return this._doValidate(this.checkerStrict, value);
   }
 
+  /**
+   * Check that the given value satisfies this checker's type, as check() does. If the type is a
+   * Promise, also wait for the value to resolve, and check the resolved value against the
+   * promised type. Returns a promise for the (resolved) value, which is rejected with an Error if
+   * either check fails, e.g. "(await value).name is not a string".
+   */
+  public checkAsync(value: any): Promise<any> { return this._doCheckAsync(false, value); }
+
+  /**
+   * Same as checkAsync(), but checks strictly, as in strictCheck().
+   */
+  public strictCheckAsync(value: any): Promise<any> { return this._doCheckAsync(true, value); }
+
+  /**
+   * If this checker is for a union type (possibly referenced by name), returns which member type
+   * the given value satisfies, e.g. {index: 1, ttype, name: "Circle"} for a value of union
+   * "Square" | "Circle", using the first satisfied member. If the value satisfies no member,
+   * returns {index: -1, errors} with the same errors as validate().
+   */
+  public match(value: any): IUnionMatch { return this._doMatch(false, value); }
+
+  /**
+   * Same as match(), but checks members strictly, as in strictCheck().
+   */
+  public strictMatch(value: any): IUnionMatch { return this._doMatch(true, value); }
+
+  /**
+   * Returns a copy of the given value, with strings converted to numbers, booleans, Dates, or enum
+   * values where this checker's type requires it, e.g. "17" to 17 for a number. For unions, the
+   * first member type that the converted value satisfies is used. Throws an Error if the result
+   * does not satisfy this checker's type.
+   */
+  public coerce(value: any): any {
+    return this._doConvert({coerce: true}, false, value);
+  }
+
+  /**
+   * Same as coerce(), but checks the result strictly, as in strictCheck().
+   */
+  public strictCoerce(value: any): any {
+    return this._doConvert({coerce: true}, true, value);
+  }
+
+  /**
+   * Returns a deep copy of the given value containing only the object properties and tuple
+   * elements declared by this checker's type, e.g. to persist or forward a client payload safely.
+   * Properties covered by an index signature are kept. Throws an Error if the value does not
+   * satisfy this checker's type.
+   */
+  public strip(value: any): any {
+    return this._doConvert({strip: true}, false, value);
+  }
+
+  /**
+   * Returns a copy of the given value with missing optional properties filled in with their
+   * default values, as declared with e.g. `opt("number", {default: 30})`, including in nested
+   * objects. Throws an Error if the result does not satisfy this checker's type.
+   */
+  public applyDefaults(value: any): any {
+    return this._doConvert({defaults: true}, false, value);
+  }
+
   /**
    * If this checker is for an interface, returns a Checker for the type required for the given
    * property of this interface.
@@ -115,7 +250,7 @@ export class Checker {
   public getProp(prop: string): Checker {
     const ttype = this.props.get(prop);
     if (!ttype) { throw new Error(`Type has no property ${prop}`); }
-    return new Checker(this.suite, ttype, `${this._path}.${prop}`);
+    return new Checker(this.suite, ttype, `${this._path}.${prop}`, this._options);
   }
 
   /**
@@ -125,35 +260,107 @@ export class Checker {
    *      find(s: string, pos?: number): number;
    *    }
    * Then methodArgs("find").check(...) will succeed for ["foo"] and ["foo", 3], but not for [17].
+   * For an overloaded method, argument-lists matching any overload are accepted, and errors are
+   * reported for the closest one.
    */
   public methodArgs(methodName: string): Checker {
-    const tfunc: TFunc = this._getMethod(methodName);
-    return new Checker(this.suite, tfunc.paramList);
+    return new Checker(this.suite, getArgsType(this._getMethod(methodName)), "value", this._options);
   }
 
   /**
    * If this checker is for an interface, returns a Checker for the return value of the given
-   * method of this interface.
+   * method of this interface. For an overloaded method, results of any overload are accepted.
    */
   public methodResult(methodName: string): Checker {
-    const tfunc = this._getMethod(methodName);
-    return new Checker(this.suite, tfunc.result);
+    return new Checker(this.suite, getResultType(this._getMethod(methodName)), "value", this._options);
   }
 
   /**
    * If this checker is for a function, returns a Checker for its argument-list.
    */
   public getArgs(): Checker {
-    if (!(this.ttype instanceof TFunc)) { throw new Error("getArgs() applied to non-function"); }
-    return new Checker(this.suite, this.ttype.paramList);
+    if (!isFunctionType(this.ttype)) { throw new Error("getArgs() applied to non-function"); }
+    return new Checker(this.suite, getArgsType(this.ttype), "value", this._options);
   }
 
   /**
    * If this checker is for a function, returns a Checker for its result.
    */
   public getResult(): Checker {
-    if (!(this.ttype instanceof TFunc)) { throw new Error("getResult() applied to non-function"); }
-    return new Checker(this.suite, this.ttype.result);
+    if (!isFunctionType(this.ttype)) { throw new Error("getResult() applied to non-function"); }
+    return new Checker(this.suite, getResultType(this.ttype), "value", this._options);
+  }
+
+  /**
+   * If this checker is for a function, returns a function which calls fn, checking on every call
+   * that the arguments satisfy the function's parameters and that the result satisfies its result
+   * type, and throwing an Error if not, e.g. "value.args.name is not a string". If the result type
+   * is a Promise, the wrapper returns a promise for the result, which is checked once it resolves.
+   * For overloads, a call is checked against the first signature its arguments match, or if none
+   * do, against the closest one. Options may say to report failures differently.
+   */
+  public wrapFunction<F extends (...args: any[]) => any>(fn: F, options: IWrapOptions = {}): F {
+    if (!isFunctionType(this.ttype)) { throw new Error("wrapFunction() applied to non-function"); }
+    this.check(fn);
+    return this._wrapCall(fn, this.ttype, (name) => `${this._path}.args.${name}`, `${this._path}.result`, options);
+  }
+
+  /**
+   * If this checker is for an interface, returns a Proxy for obj which checks its properties as
+   * they are read, and the arguments and results of calls to its methods, throwing an Error if a
+   * check fails, e.g. "value.set(item).size is not a number" for the argument `item` of method
+   * `set`, or "value.get() is not a string" for the result of `get`. Results of methods returning
+   * a Promise are checked once they resolve, and overloaded methods are checked as by
+   * wrapFunction(). Options may say to report failures differently.
+   */
+  public wrapObject<T extends object>(obj: T, options: IWrapOptions = {}): T {
+    if (!(this.ttype instanceof TIface)) { throw new Error("wrapObject() applied to non-interface"); }
+    // Functions to check (and for methods, wrap) the value read from each declared property.
+    const readers = new Map<string, (value: any, target: T) => any>();
+    // Wrapped methods are reused, keyed by the original function.
+    const wrappedMethods = new WeakMap<(...args: any[]) => any, (...args: any[]) => any>();
+    for (const p of this.ttype.props) {
+      const path = `${this._path}.${p.name}`;
+      const propChecker = this._getSubChecker(p.isOpt ? new TOptional(p.ttype) : p.ttype, path);
+      const ptype = p.ttype;
+      readers.set(p.name, (value: any, target: T) => {
+        checkWrapped(propChecker, value, options);
+        if (!isFunctionType(ptype) || typeof value !== "function") { return value; }
+        const method = wrappedMethods.get(value) ||
+          this._wrapCall(value.bind(target), ptype, (name) => `${path}(${name})`, `${path}()`, options);
+        wrappedMethods.set(value, method);
+        return method;
+      });
+    }
+    return new Proxy(obj, {
+      get: (target: T, prop: PropertyKey, receiver: any) => {
+        const value = Reflect.get(target, prop, receiver);
+        const reader = typeof prop === "string" ? readers.get(prop) : undefined;
+        return reader ? reader(value, target) : value;
+      },
+    });
+  }
+
+  /**
+   * Returns a deep Proxy for the given value, which must satisfy this checker's type, that checks
+   * every change made through it: assigning to a property or array element, deleting a property,
+   * or calling array methods like push() and splice(). A change that would make the value violate
+   * the type throws an Error, e.g. "value.items[2].size is not a number" or "value.name is
+   * missing", and is not made. Nested plain objects and arrays are guarded as they are read.
+   */
+  public guard<T extends object>(value: T): T {
+    this.check(value);
+    const getChecker = (ttype: TType, path: string) => this._getSubChecker(ttype, path);
+    return new GuardNode(getChecker, this.suite, value, this.ttype, this._path).proxy;
+  }
+
+  /**
+   * If this checker is for a generic type, returns a Checker for its instantiation with the given
+   * type arguments, e.g. checkers.Paginated.instantiate("User") to check a Paginated<User>.
+   */
+  public instantiate(...typeArgs: TypeSpec[]): Checker {
+    if (!(this.ttype instanceof TGeneric)) { throw new Error("instantiate() applied to non-generic type"); }
+    return new Checker(this.suite, this.ttype.instantiate(...typeArgs), this._path, this._options);
   }
 
   /**
@@ -167,32 +374,390 @@ export class Checker {
    * Actual implementation of check() and strictCheck().
    */
   private _doCheck(checkerFunc: CheckerFunc, value: any): void {
-    const noopCtx = new NoopContext();
+    const noopCtx = new NoopContext(this._allowCircular);
     if (!checkerFunc(value, noopCtx)) {
-      const detailCtx = new DetailContext();
+      const detailCtx = new DetailContext(this._allowCircular);
+      checkerFunc(value, detailCtx);
+      throw detailCtx.getError(this._path, value);
+    }
+  }
+
+  /**
+   * Actual implementation of checkAsync() and strictCheckAsync().
+   */
+  private _doCheckAsync(strict: boolean, value: any): Promise<any> {
+    try {
+      this._doCheck(strict ? this.checkerStrict : this.checkerPlain, value);
+    } catch (e) {
+      return Promise.reject(e);
+    }
+    const promiseType = getPromiseType(this.suite, this.ttype);
+    if (!promiseType) { return Promise.resolve(value); }
+    const resolvedChecker = this._getSubChecker(promiseType.ttype, `(await ${this._path})`);
+    return Promise.resolve(value).then((result) => {
+      if (strict) { resolvedChecker.strictCheck(result); } else { resolvedChecker.check(result); }
+      return result;
+    });
+  }
+
+  /**
+   * Actual implementation of coerce() and similar methods. Converts the value and then checks
+   * the result, throwing an Error if it fails.
+   */
+  private _doConvert(options: IConvertOptions, strict: boolean, value: any): any {
+    const key = JSON.stringify([strict, options]);
+    let converter = this.converters.get(key);
+    if (!converter) {
+      converter = this.ttype.getConverter(this.suite, strict, undefined, Object.assign({}, this._options, options));
+      this.converters.set(key, converter);
+    }
+    const checkerFunc = strict ? this.checkerStrict : this.checkerPlain;
+    let result: any;
+    try {
+      result = converter(value);
+    } catch (e) {
+      if (!(e instanceof CircularReferenceError)) { throw e; }
+      // Converted copies can't contain circular references, so report them as a check would if
+      // they were disallowed.
+      const detailCtx = new DetailContext(false);
       checkerFunc(value, detailCtx);
-      throw detailCtx.getError(this._path);
+      throw detailCtx.failed() ? detailCtx.getError(this._path, value) :
+        new VError(this._path, `${this._path} ${e.message}`);
     }
+    this._doCheck(checkerFunc, result);
+    return result;
+  }
+
+  /**
+   * Actual implementation of match() and strictMatch().
+   */
+  private _doMatch(strict: boolean, value: any): IUnionMatch {
+    const unionType = getUnionType(this.suite, this.ttype);
+    if (!unionType) { throw new Error("match() applied to non-union type"); }
+    let matcher = this.matchers.get(strict);
+    if (!matcher) {
+      matcher = unionType.getMatcher(this.suite, strict, undefined, this._options);
+      this.matchers.set(strict, matcher);
+    }
+    const index = matcher(value, new NoopContext(this._allowCircular));
+    if (index >= 0) {
+      const ttype = unionType.ttypes[index];
+      return ttype instanceof TName ? {index, ttype, name: ttype.name} : {index, ttype};
+    }
+    const detailCtx = new DetailContext(this._allowCircular);
+    matcher(value, detailCtx);
+    return {index, errors: detailCtx.getErrorDetails(this._path, value)};
   }
 
   private _doValidate(checkerFunc: CheckerFunc, value: any): IErrorDetail[]|null {
-    const noopCtx = new NoopContext();
+    const noopCtx = new NoopContext(this._allowCircular);
     if (checkerFunc(value, noopCtx)) {
       return null;
     }
-    const detailCtx = new DetailContext();
+    const detailCtx = new DetailContext(this._allowCircular);
     checkerFunc(value, detailCtx);
-    return detailCtx.getErrorDetails(this._path);
+    return detailCtx.getErrorDetails(this._path, value);
+  }
+
+  /**
+   * Returns a function which calls fn, checking its arguments and result against tfunc. Errors in
+   * arguments are reported at the path returned by argPath() for the parameter's name.
+   */
+  private _wrapCall<F extends (...args: any[]) => any>(
+    fn: F, ftype: TFunc|TOverloads, argPath: (name: string) => string, resultPath: string, options: IWrapOptions,
+  ): F {
+    const signatures = (ftype instanceof TFunc ? [ftype] : ftype.signatures).map((tfunc) => {
+      const params = tfunc.paramList.params;
+      const paramCheckers = params.map((p) =>
+        this._getSubChecker(p.isOpt ? new TOptional(p.ttype) : p.ttype, argPath(p.name)));
+      const isParamRequired = paramCheckers.map((checker) => !checker.test(undefined));
+      const resultChecker = this._getSubChecker(tfunc.result, resultPath);
+      const isAsync = Boolean(getPromiseType(this.suite, tfunc.result));
+      return {params, paramCheckers, isParamRequired, resultChecker, isAsync};
+    });
+    type Signature = typeof signatures[0];
+
+    // Returns the number of leading arguments which satisfy the parameters of the signature.
+    const countMatched = (sig: Signature, args: any[]) => {
+      let i = 0;
+      while (i < sig.params.length &&
+        (args[i] === undefined ? !sig.isParamRequired[i] : sig.paramCheckers[i].test(args[i]))) { i++; }
+      return i;
+    };
+
+    // For overloads, the first signature matching the arguments is used. If none match, failures
+    // are reported for the closest one, which matches the most leading arguments, as methodArgs()
+    // does.
+    const getSignature = (args: any[]) => {
+      let closest = signatures[0];
+      let closestCount = -1;
+      for (const sig of signatures) {
+        const count = countMatched(sig, args);
+        if (count === sig.params.length) { return sig; }
+        if (count > closestCount) { closest = sig; closestCount = count; }
+      }
+      return closest;
+    };
+
+    return function wrapped(this: any, ...args: any[]) {
+      const sig = signatures.length === 1 ? signatures[0] : getSignature(args);
+      for (let i = 0; i < sig.params.length; i++) {
+        if (args[i] === undefined && sig.isParamRequired[i]) {
+          const path = argPath(sig.params[i].name);
+          onWrappedFailure(new VError(path, `${path} is missing`), options);
+        } else {
+          checkWrapped(sig.paramCheckers[i], args[i], options);
+        }
+      }
+      const result = fn.apply(this, args);
+      if (!sig.isAsync) {
+        checkWrapped(sig.resultChecker, result, options);
+        return result;
+      }
+      return sig.resultChecker.checkAsync(result).catch((e) => {
+        // Only failed checks are reported; a rejection by fn itself is passed on as is.
+        if (!(e instanceof VError)) { throw e; }
+        onWrappedFailure(e, options);
+        return result;
+      });
+    } as F;
+  }
+
+  // Returns a Checker for a type within this one, reported at the given path.
+  private _getSubChecker(ttype: TType, path: string): Checker {
+    const checker = new Checker(this.suite, ttype, path, this._options);
+    checker.setAllowCircular(this._allowCircular);
+    return checker;
   }
 
-  private _getMethod(methodName: string): TFunc {
+  private _getMethod(methodName: string): TFunc|TOverloads {
     const ttype = this.props.get(methodName);
     if (!ttype) { throw new Error(`Type has no property ${methodName}`); }
-    if (!(ttype instanceof TFunc)) { throw new Error(`Property ${methodName} is not a method`); }
+    if (!isFunctionType(ttype)) { throw new Error(`Property ${methodName} is not a method`); }
     return ttype;
   }
 }
 
+// Checks a value for a wrapper created by wrapFunction() or wrapObject().
+function checkWrapped(checker: Checker, value: any, options: IWrapOptions): void {
+  try {
+    checker.check(value);
+  } catch (e) {
+    onWrappedFailure(e, options);
+  }
+}
+
+// Handles a failed check in a wrapper as options.onFail says.
+function onWrappedFailure(error: VError, options: IWrapOptions): void {
+  if (!options.onFail || options.onFail === "throw") { throw error; }
+  if (typeof options.onFail === "function") { options.onFail(error); }
+}
+
+// Options are told apart from type suites by their values, which in suites are all TTypes.
+function isCheckerOptions(arg: ITypeSuite|ICheckerOptions): arg is ICheckerOptions {
+  return (typeof arg.classes === "object" && !(arg.classes instanceof TType)) ||
+    typeof arg.checkArity === "boolean" || typeof arg.compile === "boolean";
+}
+
+function isFunctionType(ttype: TType): ttype is TFunc|TOverloads {
+  return ttype instanceof TFunc || ttype instanceof TOverloads;
+}
+
+function getArgsType(ttype: TFunc|TOverloads): TType {
+  return ttype instanceof TFunc ? ttype.paramList : ttype.getArgsType();
+}
+
+function getResultType(ttype: TFunc|TOverloads): TType {
+  return ttype instanceof TFunc ? ttype.result : ttype.getResultType();
+}
+
+// Returns the type that the given type refers to by name, or the type itself.
+function resolveName(suite: ITypeSuite, ttype: TType): TType {
+  while (ttype instanceof TName && !ttype.typeArgs) { ttype = suite[ttype.name]; }
+  return ttype;
+}
+
+// Returns the Promise type that the given type is, or refers to by name.
+function getPromiseType(suite: ITypeSuite, ttype: TType): TPromise|undefined {
+  const resolved = resolveName(suite, ttype);
+  return resolved instanceof TPromise ? resolved : undefined;
+}
+
+// Returns the union type that the given type is, or refers to by name.
+function getUnionType(suite: ITypeSuite, ttype: TType): TUnion|undefined {
+  const resolved = resolveName(suite, ttype);
+  return resolved instanceof TUnion ? resolved : undefined;
+}
+
+// Returns the array type that the given type is, or refers to by name, looking through optional and
+// readonly types, and unions with a single array member, e.g. for opt(array("string")).
+function getArrayType(suite: ITypeSuite, ttype: TType): TArray|undefined {
+  const resolved = resolveName(suite, ttype);
+  if (resolved instanceof TArray) { return resolved; }
+  if (resolved instanceof TOptional || resolved instanceof TReadonly) { return getArrayType(suite, resolved.ttype); }
+  if (resolved instanceof TUnion) {
+    const arrayTypes = resolved.ttypes.map((t) => getArrayType(suite, t)).filter((t) => t);
+    return arrayTypes.length === 1 ? arrayTypes[0] : undefined;
+  }
+  return undefined;
+}
+
+// Array methods which change the array. Guarded arrays apply them to a copy, which is checked
+// before the array is changed.
+const mutatingArrayMethods = new Set(["copyWithin", "fill", "pop", "push", "reverse", "shift", "sort", "splice",
+  "unshift"]);
+
+// Maps proxies returned by Checker.guard() to the values they guard.
+const guardedValues = new WeakMap<object, object>();
+
+/**
+ * A plain object or array within a value guarded by Checker.guard(), at the given path. Changes
+ * to it are checked against its type if it's known, e.g. from the interface or array containing
+ * it, or otherwise (as for a member of a union) against the type of the nearest ancestor whose
+ * type is known.
+ */
+class GuardNode {
+  public readonly proxy: any;
+  private _children = new Map<string, GuardNode>();
+  private _checkers = new Map<string, Checker>();
+  private _selfChecker?: Checker;
+
+  constructor(private _getChecker: (ttype: TType, path: string) => Checker, private _suite: ITypeSuite,
+              public target: any, private _ttype: TType|undefined, private _path: string,
+              private _parent?: [GuardNode, string]) {
+    this.proxy = new Proxy(target, {
+      get: (obj: any, key: PropertyKey, receiver: any) => this._get(key, Reflect.get(obj, key, receiver)),
+      set: (obj: any, key: PropertyKey, value: any) => {
+        if (typeof key === "string") { this._checkSet(key, guardedValues.get(value) || value); }
+        return Reflect.set(obj, key, guardedValues.get(value) || value);
+      },
+      defineProperty: (obj: any, key: PropertyKey, descriptor: PropertyDescriptor) => {
+        if (descriptor.hasOwnProperty("value")) {
+          descriptor = Object.assign({}, descriptor, {value: guardedValues.get(descriptor.value) || descriptor.value});
+          if (typeof key === "string") { this._checkSet(key, descriptor.value); }
+        } else if (descriptor.get && typeof key === "string") {
+          // An accessor property is checked with the value its getter returns now.
+          this._checkSet(key, descriptor.get.call(obj));
+        }
+        return Reflect.defineProperty(obj, key, descriptor);
+      },
+      deleteProperty: (obj: any, key: PropertyKey) => {
+        if (typeof key === "string") { this._checkDelete(key); }
+        return Reflect.deleteProperty(obj, key);
+      },
+    });
+    guardedValues.set(this.proxy, target);
+  }
+
+  // Returns values read from the guarded value, guarding plain objects and arrays.
+  private _get(key: PropertyKey, value: any): any {
+    if (typeof key === "string" && mutatingArrayMethods.has(key) && Array.isArray(this.target) &&
+        typeof value === "function") {
+      return (...args: any[]) => this._callArrayMethod(value, args.map((a) => guardedValues.get(a) || a));
+    }
+    if (typeof key !== "string" || !isGuardable(value)) { return value; }
+    let child = this._children.get(key);
+    if (!child || child.target !== value) {
+      child = new GuardNode(this._getChecker, this._suite, value, this._getPropType(key),
+        this._getChildPath(key), [this, key]);
+      this._children.set(key, child);
+    }
+    return child.proxy;
+  }
+
+  // Applies an array method to a copy of the array, and only changes the array if the copy is valid,
+  // so that a failed call leaves it unchanged.
+  private _callArrayMethod(method: (...args: any[]) => any, args: any[]): any {
+    const target: any[] = this.target;
+    const copy = target.slice();
+    const result = method.apply(copy, args);
+    if (this._getArrayType()) {
+      // Elements are checked individually, skipping those the method left in place.
+      copy.forEach((elem, i) => {
+        if (i >= target.length || elem !== target[i]) { this._checkSet(String(i), elem); }
+      });
+    } else {
+      this._checkReplaced(copy);
+    }
+    target.length = 0;
+    Array.prototype.push.apply(target, copy);
+    return result === copy ? this.proxy : result;
+  }
+
+  private _checkSet(key: string, value: any): void {
+    // Elements of arrays are checked individually, and the length of arrays may change freely.
+    if (key === "length" && this._getArrayType()) { return; }
+    const propType = this._getPropType(key);
+    if (propType) {
+      let checker = this._checkers.get(key);
+      if (!checker) {
+        checker = this._getChecker(propType, this._getChildPath(key));
+        this._checkers.set(key, checker);
+      }
+      checker.check(value);
+    } else {
+      const copy = copyGuardable(this.target);
+      copy[key] = value;
+      this._checkReplaced(copy);
+    }
+  }
+
+  private _checkDelete(key: string): void {
+    const copy = copyGuardable(this.target);
+    delete copy[key];
+    this._checkReplaced(copy);
+  }
+
+  // Checks that replacing the guarded value with the given copy would keep the type satisfied.
+  private _checkReplaced(copy: any): void {
+    if (this._ttype) {
+      if (!this._selfChecker) { this._selfChecker = this._getChecker(this._ttype, this._path); }
+      this._selfChecker.check(copy);
+    } else {
+      const [parent, key] = this._parent!;
+      const parentCopy = copyGuardable(parent.target);
+      parentCopy[key] = copy;
+      parent._checkReplaced(parentCopy);
+    }
+  }
+
+  private _getArrayType(): TArray|undefined {
+    return this._ttype && getArrayType(this._suite, this._ttype);
+  }
+
+  // Returns the type required for a property or array element, if it's known.
+  private _getPropType(key: string): TType|undefined {
+    if (!this._ttype) { return undefined; }
+    const arrayType = this._getArrayType();
+    if (arrayType) { return isArrayIndex(key) ? arrayType.ttype : undefined; }
+    try {
+      return new TIndexed(this._ttype, key).getPropType(this._suite);
+    } catch (e) {
+      return undefined;
+    }
+  }
+
+  private _getChildPath(key: string): string {
+    return Array.isArray(this.target) && isArrayIndex(key) ? `${this._path}[${key}]` : `${this._path}.${key}`;
+  }
+}
+
+// Only plain objects and arrays are guarded, since proxies break the methods of other objects.
+function isGuardable(value: any): boolean {
+  if (Array.isArray(value)) { return true; }
+  if (typeof value !== "object" || value === null) { return false; }
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+function copyGuardable(value: any): any {
+  return Array.isArray(value) ? value.slice() : Object.assign(Object.create(Object.getPrototypeOf(value)), value);
+}
+
+function isArrayIndex(key: string): boolean {
+  return String(Number(key)) === key && Number(key) >= 0;
+}
+
 /**
  * Typed checker interface. Adds type guard functionality to a normal `Checker`.
  * 
@@ -0,0 +1,724 @@
+/**
+ * This module converts types to JSON Schema documents (draft 2020-12), e.g. to share them with
+ * consumers that don't use TypeScript, and JSON Schema documents to type suites.
+ */
+import {array, basicTypes, BasicType, format, formats, getFlatIface, getNamedType, iface, index, integer,
+        intersection, ITypeSuite, length, lit, name, opt, pattern, range, refine, rest, RestType, TArray,
+        TEnumLiteral, TEnumType, TFormat, TFunc, TGeneric, TGenericInstance, TIface, TIndexed, TIndexSignature,
+        TInstance, TIntersection, TInteger, TKeyOf, TLabeled, TLength, TLiteral, TMap, TMappedType, TName,
+        TOptional, TOverloads, TParamList, TPattern, TPromise, TProp, TRange, TReadonly, TRecord, TRefine, TSet,
+        TTemplateLiteral, TTuple, tuple, TType, TTypeArg, TUnion, union} from "./types";
+
+/**
+ * A JSON Schema, or a subschema of one.
+ */
+export interface IJSONSchema {
+  [keyword: string]: any;
+}
+
+/**
+ * Options for converting types to JSON Schema.
+ */
+export interface IJSONSchemaOptions {
+  // Disallow properties and tuple elements that types don't declare, as Checker.strictCheck()
+  // does, using e.g. "additionalProperties": false.
+  strict?: boolean;
+}
+
+const schemaDialect = "https://json-schema.org/draft/2020-12/schema";
+
+/**
+ * Returns a JSON Schema document with a definition in "$defs" for each type in the suite, e.g. to
+ * be referenced as {"$ref": "schema.json#/$defs/Square"}. Function types are left out, since
+ * they can't be represented in JSON, and other types that can't be (e.g. Map) throw an Error.
+ */
+export function suiteToJSONSchema(suite: ITypeSuite, options: IJSONSchemaOptions = {}): IJSONSchema {
+  const converter = new SchemaConverter(suite, options);
+  for (const typeName of Object.keys(suite)) {
+    if (!isFunctionType(suite[typeName])) { converter.addDef(typeName); }
+  }
+  return {$schema: schemaDialect, $defs: converter.defs};
+}
+
+/**
+ * Returns a JSON Schema document for the given type, e.g. as returned by Checker.getType(). The
+ * named types it refers to are resolved in the given suite, and defined in "$defs".
+ */
+export function typeToJSONSchema(ttype: TType, suite: ITypeSuite = {},
+                                 options: IJSONSchemaOptions = {}): IJSONSchema {
+  const converter = new SchemaConverter(suite, options);
+  const schema = converter.convert(ttype, converter.suite);
+  const defs = converter.defs;
+  return Object.assign({$schema: schemaDialect}, schema, Object.keys(defs).length ? {$defs: defs} : {});
+}
+
+/**
+ * Converts types to JSON Schema, collecting the definitions of named types they refer to.
+ */
+class SchemaConverter {
+  public readonly suite: ITypeSuite;
+  public readonly defs: {[defName: string]: IJSONSchema} = {};
+  private _strict: boolean;
+  // Identifies anonymous type arguments in the names of definitions of generic instantiations.
+  private _typeArgIds = new Map<TType, number>();
+
+  constructor(suite: ITypeSuite, options: IJSONSchemaOptions) {
+    this.suite = Object.assign({}, basicTypes, suite);
+    this._strict = Boolean(options.strict);
+  }
+
+  /**
+   * Adds the definition of a named type to defs, unless it's there already, and returns a
+   * reference to it.
+   */
+  public addDef(typeName: string): IJSONSchema {
+    if (!this.defs[typeName]) {
+      // Set it first, in case the type refers to itself.
+      this.defs[typeName] = {};
+      this.defs[typeName] = this.convert(getNamedType(this.suite, typeName), this.suite);
+    }
+    return getDefRef(typeName);
+  }
+
+  /**
+   * Returns the schema for the given type, resolving names in the given scope.
+   */
+  public convert(ttype: TType, scope: ITypeSuite): IJSONSchema {
+    if (ttype instanceof TName) {
+      return this._convertName(ttype, scope);
+    } else if (ttype instanceof TTypeArg) {
+      return this.convert(ttype.ttype, ttype.suite);
+    } else if (ttype instanceof BasicType) {
+      const basicName = Object.keys(basicSchemas).find((n) => basicTypes[n] === ttype);
+      if (basicName === undefined) { throw unsupported("Type"); }
+      return Object.assign({}, basicSchemas[basicName]);
+    } else if (ttype instanceof TLiteral) {
+      return {const: ttype.value};
+    } else if (ttype instanceof TArray) {
+      return {type: "array", items: this.convert(ttype.ttype, scope)};
+    } else if (ttype instanceof TTuple) {
+      return this._convertTuple(ttype, scope);
+    } else if (ttype instanceof TUnion) {
+      const members = ttype.ttypes.map((t) => this.convert(t, scope));
+      // Unions of literals, as for string literal types, are simpler as enums.
+      const isEnum = members.every((m) => Object.keys(m).length === 1 && m.hasOwnProperty("const"));
+      return isEnum ? {enum: members.map((m) => m.const)} : {anyOf: members};
+    } else if (ttype instanceof TIntersection) {
+      return this._convertIntersection(ttype, scope);
+    } else if (ttype instanceof TIface) {
+      return this._convertIface(ttype, scope);
+    } else if (ttype instanceof TOptional || ttype instanceof TLabeled || ttype instanceof TReadonly ||
+               ttype instanceof TRefine) {
+      // The predicates of refinements can't be represented, so only their base types are.
+      return this.convert(ttype.ttype, scope);
+    } else if (ttype instanceof TEnumType) {
+      return {enum: Array.from(ttype.validValues)};
+    } else if (ttype instanceof TEnumLiteral) {
+      return {const: ttype._getValue(scope)};
+    } else if (ttype instanceof TTemplateLiteral) {
+      return {type: "string", pattern: `^${getStringPattern(ttype, scope)}$`};
+    } else if (ttype instanceof TInteger) {
+      return {type: "integer"};
+    } else if (ttype instanceof TRange) {
+      return omitUndefined({minimum: ttype.min, maximum: ttype.max});
+    } else if (ttype instanceof TLength) {
+      // The constraint applies to both strings and arrays.
+      return omitUndefined({minLength: ttype.min, maxLength: ttype.max, minItems: ttype.min,
+                            maxItems: ttype.max});
+    } else if (ttype instanceof TPattern) {
+      return {pattern: ttype.regexp.source};
+    } else if (ttype instanceof TFormat) {
+      return {format: ttype.format};
+    } else if (ttype instanceof TGeneric) {
+      // As when checking a generic type without instantiating it, its type parameters are any.
+      return this.convert(ttype.ttype, ttype.getScope(ttype.params.map(() => name("any")), scope));
+    } else if (ttype instanceof TGenericInstance) {
+      return this.convert(ttype.generic.ttype, ttype.generic.getScope(ttype.typeArgs, scope));
+    } else if (ttype instanceof TMappedType || ttype instanceof TRecord) {
+      return this.convert(ttype.getIface(scope), scope);
+    } else if (ttype instanceof TKeyOf) {
+      return this._convertKeyOf(ttype, scope);
+    } else if (ttype instanceof TIndexed) {
+      return this.convert(ttype.getPropType(scope), scope);
+    } else if (isFunctionType(ttype) || ttype instanceof TParamList) {
+      throw unsupported("Function type");
+    } else if (ttype instanceof TMap || ttype instanceof TSet || ttype instanceof TPromise) {
+      throw unsupported("Map, Set or Promise type");
+    } else if (ttype instanceof TInstance) {
+      throw unsupported("Class instance type");
+    } else if (ttype instanceof RestType) {
+      throw new Error("Rest type may only be used in a tuple");
+    }
+    throw unsupported("Type");
+  }
+
+  private _convertName(ttype: TName, scope: ITypeSuite): IJSONSchema {
+    const named = getNamedType(scope, ttype.name);
+    if (named instanceof TTypeArg) {
+      return this.convert(named.ttype, named.suite);
+    } else if (ttype.typeArgs) {
+      if (!(named instanceof TGeneric)) { throw new Error(`Type ${ttype.name} is not generic`); }
+      // Each instantiation gets its own definition, which is how recursive generics are supported.
+      const defName = this._getInstanceDefName(ttype, scope);
+      if (!this.defs[defName]) {
+        this.defs[defName] = {};
+        this.defs[defName] = this.convert(named.ttype, named.getScope(ttype.typeArgs, scope));
+      }
+      return getDefRef(defName);
+    } else if (basicSchemas.hasOwnProperty(ttype.name) && named === basicTypes[ttype.name]) {
+      return Object.assign({}, basicSchemas[ttype.name]);
+    } else if (named instanceof BasicType) {
+      throw unsupported(`Type ${ttype.name}`);
+    }
+    return this.addDef(ttype.name);
+  }
+
+  private _convertTuple(ttype: TTuple, scope: ITypeSuite): IJSONSchema {
+    const prefix = ttype.ttypes.slice(0, ttype.restIndex);
+    const suffix = ttype.ttypes.slice(ttype.restIndex);
+    const schema: IJSONSchema = {type: "array"};
+    if (prefix.length) { schema.prefixItems = prefix.map((t) => this.convert(t, scope)); }
+    let minItems = prefix.length;
+    while (minItems > 0 && prefix[minItems - 1] instanceof TOptional) { minItems--; }
+    if (ttype.restType) {
+      const items = this.convert(ttype.restType.getArrayType(scope).ttype, scope);
+      // Elements after the rest elements can't be matched to the end of arrays in JSON Schema,
+      // so they are only allowed among the rest elements.
+      schema.items = suffix.length ? {anyOf: [items, ...suffix.map((t) => this.convert(t, scope))]} : items;
+      minItems += suffix.length;
+    } else if (this._strict) {
+      schema.items = false;
+    }
+    if (minItems) { schema.minItems = minItems; }
+    return schema;
+  }
+
+  private _convertIntersection(ttype: TIntersection, scope: ITypeSuite): IJSONSchema {
+    if (!this._strict) { return {allOf: ttype.ttypes.map((t) => this.convert(t, scope))}; }
+    // In strict mode, members which are interfaces are merged into one, as bases are in
+    // _convertIface(), since additionalProperties of each would disallow the properties of others.
+    const ifaces: TIface[] = [];
+    const others: TType[] = [];
+    collectIntersection(ttype.ttypes, scope, scope, ifaces, others);
+    if (ifaces.length < 2) { return {allOf: ttype.ttypes.map((t) => this.convert(t, scope))}; }
+    const props = new Map<string, TProp>();
+    for (const p of ([] as TProp[]).concat(...ifaces.map((i) => i.props))) {
+      // A property declared by several members must satisfy all of them.
+      const prev = props.get(p.name);
+      props.set(p.name, prev ? new TProp(p.name, intersection(prev.ttype, p.ttype), prev.isOpt && p.isOpt,
+        prev.options) : p);
+    }
+    const merged = new TIface([], Array.from(props.values()), undefined,
+      ([] as TIndexSignature[]).concat(...ifaces.map((i) => i.indexSignatures)));
+    return combineAll([this._convertIface(merged, scope), ...others.map((t) => this.convert(t, scope))]);
+  }
+
+  private _convertIface(ttype: TIface, scope: ITypeSuite): IJSONSchema {
+    // In strict mode, bases are included in the interface, since additionalProperties of a
+    // subschema in "allOf" would disallow the properties declared in the others.
+    const iface = (this._strict && ttype.bases.length) ? getFlatIface(ttype, scope) : ttype;
+    const schema: IJSONSchema = {type: "object"};
+    const properties: IJSONSchema = {};
+    const required: string[] = [];
+    for (const prop of iface.props) {
+      if (isFunctionType(prop.ttype)) { continue; }
+      properties[prop.name] = this.convert(prop.ttype, scope);
+      if (prop.options.hasOwnProperty("default")) { properties[prop.name].default = prop.options.default; }
+      if (!prop.isOpt) { required.push(prop.name); }
+    }
+    if (iface.props.length) { schema.properties = properties; }
+    if (required.length) { schema.required = required; }
+
+    // Index signatures with string keys apply to all other properties, and those with keys like
+    // number or template literal types to properties matching a pattern.
+    const additional: IJSONSchema[] = [];
+    const patterns: {[pattern: string]: IJSONSchema[]} = {};
+    for (const sig of iface.indexSignatures) {
+      const keyPattern = getStringPattern(sig.keyType, scope);
+      const valueSchema = this.convert(sig.valueType, scope);
+      if (keyPattern === anyStringPattern) {
+        additional.push(valueSchema);
+      } else {
+        const fullPattern = `^${keyPattern}$`;
+        patterns[fullPattern] = [...(patterns[fullPattern] || []), valueSchema];
+      }
+    }
+    if (Object.keys(patterns).length) {
+      schema.patternProperties = mapValues(patterns, combineAll);
+    }
+    if (additional.length) {
+      schema.additionalProperties = combineAll(additional);
+    } else if (this._strict) {
+      schema.additionalProperties = false;
+    }
+
+    if (iface === ttype && ttype.bases.length) {
+      return {allOf: [...ttype.bases.map((base) => this.convert(name(base), scope)), schema]};
+    }
+    return schema;
+  }
+
+  private _convertKeyOf(ttype: TKeyOf, scope: ITypeSuite): IJSONSchema {
+    const target = resolveName(ttype.ttype, scope);
+    if (target.ttype instanceof TEnumType) { return {enum: Object.keys(target.ttype.members)}; }
+    const iface = getFlatIface(target.ttype, target.scope);
+    const keys: IJSONSchema = {enum: iface.props.map((p) => p.name)};
+    if (!iface.indexSignatures.length) { return keys; }
+    return {anyOf: [keys, ...iface.indexSignatures.map((sig) =>
+      ({type: "string", pattern: `^${getStringPattern(sig.keyType, target.scope)}$`}))]};
+  }
+
+  // Returns the name of the definition for an instantiation of a generic type, e.g. "List<User>".
+  private _getInstanceDefName(ttype: TName, scope: ITypeSuite): string {
+    return `${ttype.name}<${ttype.typeArgs!.map((arg) => this._getTypeArgName(arg, scope)).join(",")}>`;
+  }
+
+  // Returns the name of a type argument, following type parameters to the arguments they're bound to.
+  private _getTypeArgName(ttype: TType, scope: ITypeSuite): string {
+    if (ttype instanceof TTypeArg) { return this._getTypeArgName(ttype.ttype, ttype.suite); }
+    if (ttype instanceof TName) {
+      const named = getNamedType(scope, ttype.name);
+      if (named instanceof TTypeArg) { return this._getTypeArgName(named.ttype, named.suite); }
+      return ttype.typeArgs ? this._getInstanceDefName(ttype, scope) : ttype.name;
+    }
+    if (ttype instanceof TLiteral) { return JSON.stringify(ttype.value); }
+    let id = this._typeArgIds.get(ttype);
+    if (id === undefined) {
+      id = this._typeArgIds.size + 1;
+      this._typeArgIds.set(ttype, id);
+    }
+    return `#${id}`;
+  }
+}
+
+/**
+ * Options for converting JSON Schema documents to type suites.
+ */
+export interface IJSONSchemaImportOptions {
+  // Name of the type for the root schema of the document, unless it only contains "$defs".
+  rootName?: string;
+  // Leave out keywords that can't be converted, instead of throwing an Error listing them.
+  ignoreUnsupported?: boolean;
+}
+
+/**
+ * Returns a type suite for use with createCheckers(), with a type for each definition in the
+ * "$defs" (or "definitions") of a JSON Schema document, and a type named "Root" for the root
+ * schema of the document, if it's not just a container for definitions.
+ *
+ * If the document uses keywords that can't be converted, throws an Error listing where they are,
+ * e.g. "Unsupported JSON Schema keywords: #/$defs/Item/not".
+ */
+export function jsonSchemaToSuite(schema: IJSONSchema|boolean, options: IJSONSchemaImportOptions = {}): ITypeSuite {
+  const importer = new SchemaImporter(options.rootName || "Root");
+  const suite: ITypeSuite = {};
+  if (typeof schema === "object" && schema !== null) {
+    for (const defsKeyword of defsKeywords) {
+      const defs = schema[defsKeyword] || {};
+      for (const defName of Object.keys(defs)) {
+        suite[defName] = importer.convert(defs[defName], `#/${defsKeyword}/${escapePointer(defName)}`);
+      }
+    }
+  }
+  if (typeof schema !== "object" || Object.keys(schema).some((k) => !documentKeywords.has(k))) {
+    suite[importer.rootName] = importer.convert(schema, "#");
+  }
+  if (importer.unsupported.length && !options.ignoreUnsupported) {
+    throw new Error(`Unsupported JSON Schema keywords: ${importer.unsupported.join(", ")}`);
+  }
+  return suite;
+}
+
+const defsKeywords = ["$defs", "definitions"];
+
+// Keywords which may appear in a document without it having a root schema.
+const documentKeywords = new Set(["$schema", "$id", "$comment", "title", "description", ...defsKeywords]);
+
+// Keywords that don't affect validation, which are left out.
+const annotationKeywords = new Set(["$schema", "$id", "$comment", "title", "description", "default", "examples",
+  "deprecated", "readOnly", "writeOnly"]);
+
+// Keywords which only apply to values of a certain type. A schema using them without "type" is
+// taken to be of that type.
+const typeKeywords: {[type: string]: string[]} = {
+  string: ["minLength", "maxLength", "pattern", "format"],
+  number: ["minimum", "maximum", "exclusiveMinimum", "exclusiveMaximum", "multipleOf"],
+  array: ["items", "prefixItems", "minItems", "maxItems", "uniqueItems"],
+  object: ["properties", "required", "additionalProperties"],
+};
+
+const supportedKeywords = new Set(["$ref", "const", "enum", "type", "anyOf", "oneOf", "allOf",
+  ...Object.keys(typeKeywords).map((t) => typeKeywords[t]).reduce((a, b) => a.concat(b))]);
+
+/**
+ * Converts JSON Schemas to types, collecting the locations of keywords it doesn't support.
+ */
+class SchemaImporter {
+  public readonly unsupported: string[] = [];
+
+  constructor(public readonly rootName: string) {}
+
+  /**
+   * Returns the type for a schema at the given location in the document, e.g. "#/$defs/Item".
+   */
+  public convert(schema: IJSONSchema|boolean, path: string): TType {
+    if (schema === true) { return name("any"); }
+    if (schema === false) { return name("never"); }
+    if (typeof schema !== "object" || schema === null || Array.isArray(schema)) {
+      throw new Error(`Invalid JSON Schema at ${path}`);
+    }
+    // Definitions are only supported at the root of the document, where jsonSchemaToSuite() reads them.
+    for (const keyword of Object.keys(schema)) {
+      if (!supportedKeywords.has(keyword) && !annotationKeywords.has(keyword) &&
+          !(path === "#" && defsKeywords.indexOf(keyword) >= 0)) {
+        this._unsupported(path, keyword);
+      }
+    }
+
+    // All the parts of a schema apply, so the type is their intersection.
+    const parts: TType[] = [];
+    if (schema.$ref !== undefined) { parts.push(this._convertRef(schema.$ref, path)); }
+    if (schema.hasOwnProperty("const")) { parts.push(this._convertValues([schema.const], path, "const")); }
+    if (schema.enum !== undefined) { parts.push(this._convertValues(schema.enum, path, "enum")); }
+    if (schema.type !== undefined) {
+      const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+      parts.push(unionOf(types.map((type) => this._convertType(schema, type, path))));
+    } else {
+      parts.push(...this._convertConstraints(schema, path));
+    }
+    for (const keyword of ["anyOf", "oneOf"]) {
+      if (schema[keyword] !== undefined) {
+        const members: TType[] = schema[keyword].map((s: IJSONSchema, i: number) =>
+          this.convert(s, `${path}/${keyword}/${i}`));
+        parts.push(unionOf(members));
+      }
+    }
+    if (schema.allOf !== undefined) {
+      parts.push(...schema.allOf.map((s: IJSONSchema, i: number) => this.convert(s, `${path}/allOf/${i}`)));
+    }
+    return parts.length === 0 ? name("any") : (parts.length === 1 ? parts[0] : intersection(...parts));
+  }
+
+  // Returns types for the keywords of a schema without "type". Those only constrain values of the
+  // types they apply to, e.g. {"minimum": 5} allows "x", so the types pass values of other types.
+  private _convertConstraints(schema: IJSONSchema, path: string): TType[] {
+    const hasKeywords = (type: string) => typeKeywords[type].some((k) => schema.hasOwnProperty(k));
+    const constraints: TType[] = [];
+    if (hasKeywords("number")) {
+      const {minimum, maximum, exclusiveMinimum: xmin, exclusiveMaximum: xmax, multipleOf} = schema;
+      const isNumber = (v: any) => typeof v === "number";
+      if (minimum !== undefined || maximum !== undefined) { constraints.push(range(minimum, maximum)); }
+      if (xmin !== undefined) {
+        constraints.push(refine("any", (v) => !isNumber(v) || v > xmin, `is not greater than ${xmin}`));
+      }
+      if (xmax !== undefined) {
+        constraints.push(refine("any", (v) => !isNumber(v) || v < xmax, `is not less than ${xmax}`));
+      }
+      if (multipleOf !== undefined) {
+        constraints.push(refine("any", (v) => !isNumber(v) || Number.isInteger(v / multipleOf),
+          `is not a multiple of ${multipleOf}`));
+      }
+    }
+    const {minLength, maxLength, minItems, maxItems} = schema;
+    if (minLength === minItems && maxLength === maxItems) {
+      // Bounds shared by strings and arrays, as exported for length().
+      if (minLength !== undefined || maxLength !== undefined) { constraints.push(length(minLength, maxLength)); }
+    } else {
+      constraints.push(...getLengthRefinements("string", minLength, maxLength));
+      constraints.push(...getLengthRefinements("array", minItems, maxItems));
+    }
+    if (schema.pattern !== undefined) { constraints.push(pattern(new RegExp(schema.pattern, "u"))); }
+    if (schema.format !== undefined) {
+      if (formats.hasOwnProperty(schema.format)) {
+        constraints.push(format(schema.format));
+      } else {
+        this._unsupported(path, "format");
+      }
+    }
+    if (schema.uniqueItems) {
+      constraints.push(refine("any", (v) => !Array.isArray(v) || isUnique(v), "has duplicate items"));
+    }
+    // Keywords for the elements of arrays and the properties of objects need their types, so
+    // values of other types are allowed by a union.
+    if (schema.items !== undefined || schema.prefixItems !== undefined) {
+      constraints.push(union(this._convertArray(schema, path), ...getOtherJSONTypes("array")));
+    }
+    if (hasKeywords("object")) {
+      constraints.push(union(this._convertObject(schema, path), ...getOtherJSONTypes("object")));
+    }
+    return constraints;
+  }
+
+  // Returns the type for one of the types that a schema allows, with the keywords that apply to it.
+  private _convertType(schema: IJSONSchema, type: string, path: string): TType {
+    switch (type) {
+      case "null": case "boolean": case "string": {
+        let ttype: TType = name(type);
+        if (type !== "string") { return ttype; }
+        if (schema.minLength !== undefined || schema.maxLength !== undefined) {
+          ttype = intersection(ttype, length(schema.minLength, schema.maxLength));
+        }
+        if (schema.pattern !== undefined) { ttype = intersection(ttype, pattern(new RegExp(schema.pattern, "u"))); }
+        if (schema.format !== undefined) {
+          if (formats.hasOwnProperty(schema.format)) {
+            ttype = intersection(ttype, format(schema.format));
+          } else {
+            this._unsupported(path, "format");
+          }
+        }
+        return ttype;
+      }
+      case "number": case "integer": {
+        let ttype: TType = type === "integer" ? integer() : name("number");
+        if (schema.minimum !== undefined || schema.maximum !== undefined) {
+          ttype = intersection(ttype, range(schema.minimum, schema.maximum));
+        }
+        const {exclusiveMinimum: xmin, exclusiveMaximum: xmax, multipleOf} = schema;
+        if (xmin !== undefined) { ttype = refine(ttype, (v) => v > xmin, `is not greater than ${xmin}`); }
+        if (xmax !== undefined) { ttype = refine(ttype, (v) => v < xmax, `is not less than ${xmax}`); }
+        if (multipleOf !== undefined) {
+          ttype = refine(ttype, (v) => Number.isInteger(v / multipleOf), `is not a multiple of ${multipleOf}`);
+        }
+        return ttype;
+      }
+      case "array": {
+        let ttype = this._convertArray(schema, path);
+        if (schema.minItems !== undefined || schema.maxItems !== undefined) {
+          ttype = intersection(ttype, length(schema.minItems, schema.maxItems));
+        }
+        if (schema.uniqueItems) { ttype = refine(ttype, isUnique, "has duplicate items"); }
+        return ttype;
+      }
+      case "object":
+        return this._convertObject(schema, path);
+    }
+    throw new Error(`Invalid JSON Schema type ${JSON.stringify(type)} at ${path}`);
+  }
+
+  private _convertArray(schema: IJSONSchema, path: string): TType {
+    const items = schema.items === undefined ? name("any") :
+      (schema.items === false ? undefined : this.convert(schema.items, `${path}/items`));
+    if (schema.prefixItems === undefined) { return array(items || name("never")); }
+    // Elements past minItems are optional.
+    const minItems = schema.minItems || 0;
+    const elements: TType[] = schema.prefixItems.map((s: IJSONSchema, i: number) => {
+      const element = this.convert(s, `${path}/prefixItems/${i}`);
+      return i < minItems ? element : opt(element);
+    });
+    return tuple(...elements, ...(items ? [rest(array(items))] : []));
+  }
+
+  private _convertObject(schema: IJSONSchema, path: string): TType {
+    const properties: IJSONSchema = schema.properties || {};
+    const required = new Set<string>(schema.required || []);
+    const props: {[prop: string]: TType} = {};
+    for (const prop of Object.keys(properties)) {
+      const ttype = this.convert(properties[prop], `${path}/properties/${escapePointer(prop)}`);
+      const defaultValue = properties[prop].default;
+      props[prop] = required.has(prop) ? ttype :
+        opt(ttype, defaultValue === undefined ? undefined : {default: defaultValue});
+    }
+    // Required properties with no schema may have any value.
+    required.forEach((prop) => { if (!props[prop]) { props[prop] = name("any"); } });
+
+    // As in TypeScript, declared properties must also satisfy an index signature. That's only
+    // equivalent to additionalProperties when they satisfy it anyway, i.e. when it allows any value
+    // or their schemas are the same as its schema; otherwise it's reported as unsupported, rather
+    // than widened to include their types. (A value of false is for strict checks, which disallow
+    // other properties.)
+    const additional = schema.additionalProperties;
+    if (additional === undefined || additional === true || additional === false) { return iface([], props); }
+    const additionalJSON = JSON.stringify(additional);
+    const isSatisfied = (prop: string) => JSON.stringify(properties[prop]) === additionalJSON;
+    if (additionalJSON !== "{}" && !Object.keys(properties).every(isSatisfied)) {
+      this._unsupported(path, "additionalProperties");
+      return iface([], props);
+    }
+    return iface([], props, [index("string", this.convert(additional, `${path}/additionalProperties`))]);
+  }
+
+  private _convertRef(ref: string, path: string): TType {
+    if (ref === "#") { return name(this.rootName); }
+    const match = /^#\/(\$defs|definitions)\/([^/]+)$/.exec(ref);
+    if (!match) {
+      this._unsupported(path, "$ref");
+      return name("any");
+    }
+    return name(unescapePointer(decodeURIComponent(match[2])));
+  }
+
+  // Returns the type for the values of "enum" or "const", which must be primitive.
+  private _convertValues(values: any[], path: string, keyword: string): TType {
+    if (values.some((v) => typeof v === "object" && v !== null)) {
+      this._unsupported(path, keyword);
+      return name("any");
+    }
+    return unionOf(values.map((v) => lit(v)));
+  }
+
+  private _unsupported(path: string, keyword: string): void {
+    this.unsupported.push(`${path}/${keyword}`);
+  }
+}
+
+function unionOf(ttypes: TType[]): TType {
+  return ttypes.length === 1 ? ttypes[0] : union(...ttypes);
+}
+
+function isUnique(value: any[]): boolean {
+  return new Set(value.map((item) => JSON.stringify(item))).size === value.length;
+}
+
+// Returns refinements for bounds on the length of values of one JSON type, "string" or "array",
+// which pass values of other types.
+function getLengthRefinements(type: string, min?: number, max?: number): TType[] {
+  const isType = (v: any) => type === "array" ? Array.isArray(v) : typeof v === "string";
+  const refinements: TType[] = [];
+  if (min !== undefined) {
+    refinements.push(refine("any", (v) => !isType(v) || v.length >= min, `has length less than ${min}`));
+  }
+  if (max !== undefined) {
+    refinements.push(refine("any", (v) => !isType(v) || v.length <= max, `has length greater than ${max}`));
+  }
+  return refinements;
+}
+
+// Returns the types of JSON values other than those of the given JSON type.
+function getOtherJSONTypes(type: string): TType[] {
+  const types: {[type: string]: TType} = {
+    null: name("null"), boolean: name("boolean"), number: name("number"), string: name("string"),
+    array: array("any"), object: refine("object", (v) => !Array.isArray(v), "is an array"),
+  };
+  return Object.keys(types).filter((t) => t !== type).map((t) => types[t]);
+}
+
+function escapePointer(token: string): string {
+  return token.replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+function unescapePointer(token: string): string {
+  return token.replace(/~1/g, "/").replace(/~0/g, "~");
+}
+
+// Schemas of the basic types that JSON can represent.
+const basicSchemas: {[name: string]: IJSONSchema} = {
+  any:        {},
+  unknown:    {},
+  number:     {type: "number"},
+  object:     {type: ["object", "array"]},
+  boolean:    {type: "boolean"},
+  string:     {type: "string"},
+  null:       {type: "null"},
+  void:       {type: "null"},
+  undefined:  {not: {}},
+  never:      {not: {}},
+  // Dates are represented in JSON as strings, which Checker.coerce() converts.
+  Date:       {type: "string", format: "date-time"},
+};
+
+// Patterns matching the strings allowed for basic types in template literals and as keys of index
+// signatures.
+const anyStringPattern = ".*";
+const basicPatterns: {[name: string]: string} = {
+  string:     anyStringPattern,
+  any:        anyStringPattern,
+  number:     "-?(?:\\d+\\.?\\d*|\\.\\d+)(?:[eE][+-]?\\d+)?",
+  bigint:     "-?\\d+",
+  boolean:    "(?:true|false)",
+  null:       "null",
+  undefined:  "undefined",
+};
+
+/**
+ * Returns a regular expression source matching the strings allowed by a template literal type,
+ * or by its placeholders, or by the key type of an index signature.
+ */
+function getStringPattern(ttype: TType, scope: ITypeSuite): string {
+  if (ttype instanceof TName || ttype instanceof TTypeArg) {
+    const target = resolveName(ttype, scope);
+    if (!(target.ttype instanceof TName)) { return getStringPattern(target.ttype, target.scope); }
+    const basicName = target.ttype.name;
+    if (basicPatterns.hasOwnProperty(basicName) && getNamedType(target.scope, basicName) === basicTypes[basicName]) {
+      return basicPatterns[basicName];
+    }
+  } else if (ttype instanceof TLiteral) {
+    return escapeRegExp(String(ttype.value));
+  } else if (ttype instanceof TEnumType) {
+    return `(?:${Array.from(ttype.validValues, (v) => escapeRegExp(String(v))).join("|")})`;
+  } else if (ttype instanceof TEnumLiteral) {
+    return escapeRegExp(String(ttype._getValue(scope)));
+  } else if (ttype instanceof TUnion) {
+    return `(?:${ttype.ttypes.map((t) => getStringPattern(t, scope)).join("|")})`;
+  } else if (ttype instanceof TTemplateLiteral) {
+    return ttype.texts.map((text, i) =>
+      (i === 0 ? "" : getStringPattern(ttype.ttypes[i - 1], scope)) + escapeRegExp(text)).join("");
+  }
+  throw new Error("Unsupported type in template literal");
+}
+
+// Resolves a name, unless it refers to a basic type, following type arguments to their scope.
+function resolveName(ttype: TType, scope: ITypeSuite): {ttype: TType, scope: ITypeSuite} {
+  while (ttype instanceof TName || ttype instanceof TTypeArg) {
+    if (ttype instanceof TTypeArg) {
+      scope = ttype.suite;
+      ttype = ttype.ttype;
+      continue;
+    }
+    const named = getNamedType(scope, ttype.name);
+    if (named instanceof BasicType || ttype.typeArgs) { break; }
+    ttype = named;
+  }
+  return {ttype, scope};
+}
+
+// Sorts the members of an intersection, including those of nested intersections, into flattened
+// interfaces and other types, all bound to resolve in the given scope.
+function collectIntersection(members: TType[], membersScope: ITypeSuite, scope: ITypeSuite,
+                             ifaces: TIface[], others: TType[]): void {
+  for (const member of members) {
+    const target = resolveName(member, membersScope);
+    if (target.ttype instanceof TIntersection) {
+      collectIntersection(target.ttype.ttypes, target.scope, scope, ifaces, others);
+      continue;
+    }
+    try {
+      ifaces.push(getFlatIface(member, scope, membersScope));
+    } catch (e) {
+      others.push(membersScope === scope ? member : new TTypeArg(member, membersScope));
+    }
+  }
+}
+
+function getDefRef(defName: string): IJSONSchema {
+  // Names are escaped as JSON Pointer tokens, and then for use in a URI fragment.
+  return {$ref: `#/$defs/${encodeURIComponent(escapePointer(defName))}`};
+}
+
+function isFunctionType(ttype: TType): boolean {
+  return ttype instanceof TFunc || ttype instanceof TOverloads;
+}
+
+function unsupported(what: string): Error {
+  return new Error(`${what} can't be represented in JSON Schema`);
+}
+
+function combineAll(schemas: IJSONSchema[]): IJSONSchema {
+  return schemas.length === 1 ? schemas[0] : {allOf: schemas};
+}
+
+function omitUndefined(obj: IJSONSchema): IJSONSchema {
+  return mapValues(obj, (v) => v, (v) => v !== undefined);
+}
+
+function mapValues<T, U>(obj: {[key: string]: T}, func: (value: T) => U,
+                         filter: (value: T) => boolean = () => true): {[key: string]: U} {
+  const result: {[key: string]: U} = {};
+  for (const key of Object.keys(obj)) {
+    if (filter(obj[key])) { result[key] = func(obj[key]); }
+  }
+  return result;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
@@ -0,0 +1,455 @@
+/**
+ * This module parses TypeScript declarations into type suites at runtime, for types that aren't
+ * known when ts-interface-builder could run. It supports the subset of TypeScript that checkers
+ * understand, without depending on the TypeScript compiler.
+ */
+import {array, enumlit, enumtype, func, generic, iface, index, indexed, intersection, ITypeSuite, keyof, labeled,
+        lit, map, name, omit, opt, overloads, param, partial, pick, promise, readonly, record, required, rest, set,
+        TFunc, TIndexSignature, TLiteral, TOptional, TParam, tuple, TType, TUnion, TypeSpec, union} from "./types";
+
+/**
+ * Error thrown by parseDeclarations() for invalid or unsupported syntax. Besides an informative
+ * message, it includes the line and column (both starting at 1) where the problem was found.
+ */
+export class ParseError extends Error {
+  constructor(message: string, public line: number, public column: number) {
+    super(`${message} at line ${line}, column ${column}`);
+    Object.setPrototypeOf(this, ParseError.prototype);
+  }
+}
+
+/**
+ * Returns a type suite with the types declared in the given TypeScript source, which may contain
+ * interfaces (with extends, index signatures, optional properties and methods), type aliases,
+ * enums, and generic versions of interfaces and type aliases. Other declarations, and types that
+ * checkers don't support (e.g. conditional or mapped types), throw a ParseError.
+ */
+export function parseDeclarations(source: string): ITypeSuite {
+  return new DeclarationParser(tokenize(source)).parseDeclarations();
+}
+
+interface IToken {
+  kind: "name"|"string"|"number"|"punct"|"eof";
+  // Names, punctuation and numbers as written; strings without quotes and escapes.
+  value: string;
+  line: number;
+  column: number;
+}
+
+// Groups in order: whitespace, comments, names, numbers, strings, punctuation.
+const tokenRegExp = new RegExp([
+  /(\s+)/, /(\/\/[^\n]*|\/\*[\s\S]*?\*\/)/, /([A-Za-z_$][\w$]*)/,
+  /(0[xX][\da-fA-F]+|\d+(?:\.\d+)?(?:[eE][+-]?\d+)?)/, /("(?:[^"\\\n]|\\.)*"|'(?:[^'\\\n]|\\.)*')/,
+  /(=>|\.\.\.|[{}()[\]<>,;:?|&=.\-])/,
+].map((r) => r.source).join("|"), "g");
+
+function tokenize(source: string): IToken[] {
+  const tokens: IToken[] = [];
+  let line = 1;
+  let lineStart = 0;
+  let pos = 0;
+  while (pos < source.length) {
+    const column = pos - lineStart + 1;
+    tokenRegExp.lastIndex = pos;
+    const match = tokenRegExp.exec(source);
+    if (!match || match.index !== pos) {
+      if (source[pos] === "`") { throw new ParseError("Template literal types are not supported", line, column); }
+      throw new ParseError(`Unexpected character ${JSON.stringify(source[pos])}`, line, column);
+    }
+    const text = match[0];
+    if (match[3]) {
+      tokens.push({kind: "name", value: text, line, column});
+    } else if (match[4]) {
+      tokens.push({kind: "number", value: text, line, column});
+    } else if (match[5]) {
+      tokens.push({kind: "string", value: unescapeString(text.slice(1, -1)), line, column});
+    } else if (match[6]) {
+      tokens.push({kind: "punct", value: text, line, column});
+    }
+    // Whitespace and comments may span lines.
+    for (let i = text.indexOf("\n"); i >= 0; i = text.indexOf("\n", i + 1)) {
+      line++;
+      lineStart = pos + i + 1;
+    }
+    pos += text.length;
+  }
+  tokens.push({kind: "eof", value: "", line, column: pos - lineStart + 1});
+  return tokens;
+}
+
+const escapes: {[char: string]: string} = {b: "\b", f: "\f", n: "\n", r: "\r", t: "\t", v: "\v", 0: "\0"};
+
+function unescapeString(text: string): string {
+  return text.replace(/\\(u\{[\da-fA-F]+\}|u[\da-fA-F]{4}|x[\da-fA-F]{2}|[\s\S])/g, (m, esc: string) =>
+    esc.length === 1 ? (escapes.hasOwnProperty(esc) ? escapes[esc] : esc) :
+    String.fromCodePoint(parseInt(esc.replace(/^[ux]\{?|\}$/g, ""), 16)));
+}
+
+// Generic types from the standard library that correspond to types of this package.
+const builtinGenerics: {[name: string]: (...typeArgs: TType[]) => TType} = {
+  Array: array,
+  ReadonlyArray: array,
+  Partial: partial,
+  Required: required,
+  Readonly: readonly,
+  Record: record,
+  Map: map,
+  Set: set,
+  Promise: promise,
+};
+
+// Words that start types this parser doesn't support.
+const unsupportedTypes: {[word: string]: string} = {
+  typeof: "Type queries",
+  infer: "Inferred types",
+  unique: "Unique symbol types",
+  asserts: "Assertion signatures",
+  new: "Constructor types",
+  abstract: "Constructor types",
+};
+
+/**
+ * Recursive descent parser of declarations, building types as it goes.
+ */
+class DeclarationParser {
+  private _pos = 0;
+  private _suite: ITypeSuite = {};
+
+  constructor(private _tokens: IToken[]) {}
+
+  public parseDeclarations(): ITypeSuite {
+    while (this._peek().kind !== "eof") {
+      if (!this._skip(";")) { this._parseDeclaration(); }
+    }
+    return this._suite;
+  }
+
+  private _parseDeclaration(): void {
+    if (this._skip("export") && this._is("default")) { this._unsupported("Default exports"); }
+    this._skip("declare");
+    if (this._skip("interface")) {
+      const nameToken = this._expectName();
+      const params = this._parseTypeParams();
+      const bases: string[] = [];
+      if (this._skip("extends")) {
+        do {
+          bases.push(this._expectName().value);
+          if (this._is("<") || this._is(".")) { this._unsupported("Generic or qualified base types"); }
+        } while (this._skip(","));
+      }
+      this._define(nameToken, params, this._parseObjectType(bases));
+    } else if (this._is("type") && this._peek(1).kind === "name") {
+      this._next();
+      const nameToken = this._expectName();
+      const params = this._parseTypeParams();
+      this._expect("=");
+      this._define(nameToken, params, this._parseType());
+    } else if (this._is("enum") || (this._is("const") && this._is("enum", 1))) {
+      this._skip("const");
+      this._next();
+      this._define(this._expectName(), [], this._parseEnumBody());
+    } else {
+      this._unsupported("Declarations other than interfaces, types and enums");
+    }
+  }
+
+  private _define(nameToken: IToken, params: string[], ttype: TType) {
+    if (this._suite.hasOwnProperty(nameToken.value)) {
+      this._fail(`Duplicate declaration of ${nameToken.value}`, nameToken);
+    }
+    this._suite[nameToken.value] = params.length ? generic(params, ttype) : ttype;
+  }
+
+  // Parses the type parameters of a generic declaration, if any, ignoring their constraints.
+  private _parseTypeParams(): string[] {
+    const params: string[] = [];
+    if (this._skip("<")) {
+      do {
+        params.push(this._expectName().value);
+        if (this._skip("extends")) { this._parseType(); }
+        if (this._is("=")) { this._unsupported("Type parameter defaults"); }
+      } while (this._skip(","));
+      this._expect(">");
+    }
+    return params;
+  }
+
+  private _parseEnumBody(): TType {
+    const members: {[name: string]: string|number} = {};
+    let nextValue: number|undefined = 0;
+    this._expect("{");
+    while (!this._skip("}")) {
+      const memberToken = this._next();
+      if (memberToken.kind !== "name" && memberToken.kind !== "string") {
+        this._fail(`Expected an enum member but found ${describe(memberToken)}`, memberToken);
+      }
+      let value: string|number|undefined = nextValue;
+      if (this._skip("=")) {
+        value = this._parseLiteralValue();
+        if (typeof value !== "string" && typeof value !== "number") { this._unsupported("Computed enum values"); }
+      } else if (value === undefined) {
+        this._fail("Enum member must have an initializer", memberToken);
+      }
+      members[memberToken.value] = value!;
+      nextValue = typeof value === "number" ? value + 1 : undefined;
+      if (!this._skip(",")) {
+        this._expect("}");
+        break;
+      }
+    }
+    return enumtype(members);
+  }
+
+  // Parses the body of an interface or an object type literal.
+  private _parseObjectType(bases: string[]): TType {
+    const props: {[name: string]: TOptional|TypeSpec} = {};
+    const methods: {[name: string]: TFunc[]} = {};
+    const indexSignatures: TIndexSignature[] = [];
+    this._expect("{");
+    while (!this._skip("}")) {
+      if (this._is("readonly") && this._is("[", 1)) { this._next(); }
+      if (this._is("[")) {
+        if (this._peek(1).kind !== "name" || !this._is(":", 2)) {
+          this._unsupported("Computed property names and mapped types");
+        }
+        this._next();
+        this._next();
+        this._next();
+        const keyType = this._parseType();
+        this._expect("]");
+        this._expect(":");
+        indexSignatures.push(index(keyType, this._parseType()));
+      } else {
+        if (this._is("(") || this._is("<")) { this._unsupported("Call signatures"); }
+        if (this._is("new") && (this._is("(", 1) || this._is("<", 1))) { this._unsupported("Construct signatures"); }
+        if (this._is("readonly") && isPropertyName(this._peek(1))) { this._next(); }
+        const nameToken = this._next();
+        if (!isPropertyName(nameToken)) { this._fail(`Unexpected ${describe(nameToken)}`, nameToken); }
+        const propName = nameToken.kind === "number" ? String(Number(nameToken.value)) : nameToken.value;
+        const isOpt = this._skip("?");
+        if (this._is("<")) { this._unsupported("Generic methods"); }
+        const isMethod = this._is("(");
+        if (props.hasOwnProperty(propName) && !(isMethod && methods.hasOwnProperty(propName))) {
+          this._fail(`Duplicate property ${propName}`, nameToken);
+        }
+        let ttype: TType;
+        if (isMethod) {
+          // Repeated method signatures declare overloads.
+          const params = this._parseParams();
+          this._expect(":");
+          methods[propName] = (methods[propName] || []).concat([func(this._parseType(), ...params)]);
+          ttype = methods[propName].length === 1 ? methods[propName][0] : overloads(...methods[propName]);
+        } else {
+          this._expect(":");
+          ttype = this._parseType();
+        }
+        props[propName] = isOpt ? opt(ttype) : ttype;
+      }
+      if (!this._skip(";")) { this._skip(","); }
+    }
+    return iface(bases, props, indexSignatures);
+  }
+
+  private _parseParams(): TParam[] {
+    const params: TParam[] = [];
+    this._expect("(");
+    while (!this._skip(")")) {
+      if (this._is("...")) { this._unsupported("Rest parameters"); }
+      const nameToken = this._expectName();
+      const isOpt = this._skip("?");
+      params.push(param(nameToken.value, this._skip(":") ? this._parseType() : "any", isOpt));
+      if (!this._skip(",")) {
+        this._expect(")");
+        break;
+      }
+    }
+    return params;
+  }
+
+  private _parseType(): TType {
+    if (this._is("<")) { this._unsupported("Generic function types"); }
+    if (this._is("(") && this._isFunctionType()) {
+      const params = this._parseParams();
+      this._expect("=>");
+      return func(this._parseType(), ...params);
+    }
+    const ttype = this._parseCombination("|", union, () => this._parseCombination("&", intersection,
+      () => this._parseTypeOperator()));
+    if (this._is("extends")) { this._unsupported("Conditional types"); }
+    return ttype;
+  }
+
+  // Parses a union or intersection, which may start with its operator, as in "| A | B".
+  private _parseCombination(op: string, combine: (...ttypes: TType[]) => TType, parseMember: () => TType): TType {
+    this._skip(op);
+    const members = [parseMember()];
+    while (this._skip(op)) { members.push(parseMember()); }
+    return members.length === 1 ? members[0] : combine(...members);
+  }
+
+  private _parseTypeOperator(): TType {
+    if (this._skip("keyof")) { return keyof(this._parseTypeOperator()); }
+    if (this._skip("readonly")) { return readonly(this._parseTypeOperator()); }
+    let ttype = this._parsePrimaryType();
+    while (this._is("[")) {
+      if (this._is("]", 1)) {
+        ttype = array(ttype);
+      } else if (this._peek(1).kind === "string" && this._is("]", 2)) {
+        this._next();
+        ttype = indexed(ttype, this._peek().value);
+      } else {
+        this._unsupported("Indexed access types other than with a string literal");
+      }
+      this._next();
+      this._next();
+    }
+    return ttype;
+  }
+
+  private _parsePrimaryType(): TType {
+    const token = this._peek();
+    if (this._skip("(")) {
+      const ttype = this._parseType();
+      this._expect(")");
+      return ttype;
+    } else if (this._is("[")) {
+      return this._parseTuple();
+    } else if (this._is("{")) {
+      return this._parseObjectType([]);
+    } else if (token.kind === "string" || token.kind === "number" || this._is("-") || this._is("true") ||
+               this._is("false")) {
+      return lit(this._parseLiteralValue());
+    } else if (token.kind !== "name") {
+      return this._fail(`Unexpected ${describe(token)}`, token);
+    } else if (unsupportedTypes.hasOwnProperty(token.value)) {
+      this._unsupported(unsupportedTypes[token.value]);
+    }
+    this._next();
+    if (this._skip(".")) {
+      // A name with one qualifier is taken as a member of an enum.
+      const memberToken = this._expectName();
+      if (this._is(".") || this._is("<")) { this._unsupported("Qualified names other than enum members"); }
+      return enumlit(token.value, memberToken.value);
+    }
+    const typeArgs: TType[] = [];
+    if (this._skip("<")) {
+      do { typeArgs.push(this._parseType()); } while (this._skip(","));
+      this._expect(">");
+    }
+    if (!typeArgs.length) { return name(token.value); }
+    if (token.value === "Pick" || token.value === "Omit") {
+      const keys = getLiteralKeys(typeArgs[1]);
+      if (typeArgs.length !== 2 || !keys) {
+        this._fail(`${token.value} requires a type and literal keys`, token);
+      }
+      return (token.value === "Pick" ? pick : omit)(typeArgs[0], ...keys!);
+    } else if (builtinGenerics.hasOwnProperty(token.value)) {
+      const create = builtinGenerics[token.value];
+      if (typeArgs.length !== create.length) {
+        this._fail(`${token.value} requires ${create.length} type argument(s)`, token);
+      }
+      return create(...typeArgs);
+    }
+    return name(token.value, typeArgs);
+  }
+
+  private _parseTuple(): TType {
+    const elements: TType[] = [];
+    this._expect("[");
+    while (!this._skip("]")) {
+      const isRest = this._skip("...");
+      const label = (this._peek().kind === "name" && (this._is(":", 1) || (this._is("?", 1) && this._is(":", 2)))) ?
+        this._next().value : undefined;
+      let isOpt = this._skip("?");
+      if (label !== undefined) { this._expect(":"); }
+      let element = this._parseType();
+      isOpt = this._skip("?") || isOpt;
+      element = isRest ? rest(element) : (isOpt ? opt(element) : element);
+      elements.push(label === undefined ? element : labeled(label, element));
+      if (!this._skip(",")) {
+        this._expect("]");
+        break;
+      }
+    }
+    return tuple(...elements);
+  }
+
+  private _parseLiteralValue(): any {
+    const token = this._next();
+    if (token.kind === "string") { return token.value; }
+    if (token.kind === "number") { return Number(token.value); }
+    if (token.value === "true" || token.value === "false") { return token.value === "true"; }
+    if (token.value === "-" && this._peek().kind === "number") { return -Number(this._next().value); }
+    return this._fail(`Unexpected ${describe(token)}`, token);
+  }
+
+  // At "(", tells whether it starts a function type, rather than a parenthesized type.
+  private _isFunctionType(): boolean {
+    let depth = 0;
+    for (let i = this._pos; i < this._tokens.length; i++) {
+      const token = this._tokens[i];
+      if (token.kind !== "punct") { continue; }
+      if (token.value === "(") { depth++; }
+      if (token.value === ")" && --depth === 0) {
+        const after = this._tokens[i + 1];
+        return after.kind === "punct" && after.value === "=>";
+      }
+    }
+    return false;
+  }
+
+  private _peek(offset: number = 0): IToken {
+    return this._tokens[Math.min(this._pos + offset, this._tokens.length - 1)];
+  }
+
+  private _next(): IToken {
+    const token = this._peek();
+    if (token.kind !== "eof") { this._pos++; }
+    return token;
+  }
+
+  // Tells whether the token at the given offset is the given name or punctuation.
+  private _is(value: string, offset: number = 0): boolean {
+    const token = this._peek(offset);
+    return (token.kind === "name" || token.kind === "punct") && token.value === value;
+  }
+
+  private _skip(value: string): boolean {
+    if (!this._is(value)) { return false; }
+    this._next();
+    return true;
+  }
+
+  private _expect(value: string): void {
+    if (!this._skip(value)) { this._fail(`Expected "${value}" but found ${describe(this._peek())}`); }
+  }
+
+  private _expectName(): IToken {
+    const token = this._peek();
+    if (token.kind !== "name") { this._fail(`Expected a name but found ${describe(token)}`); }
+    return this._next();
+  }
+
+  private _unsupported(what: string): never {
+    return this._fail(`${what} are not supported`);
+  }
+
+  private _fail(message: string, token: IToken = this._peek()): never {
+    throw new ParseError(message, token.line, token.column);
+  }
+}
+
+function isPropertyName(token: IToken): boolean {
+  return token.kind === "name" || token.kind === "string" || token.kind === "number";
+}
+
+function describe(token: IToken): string {
+  return token.kind === "eof" ? "end of input" : JSON.stringify(token.value);
+}
+
+// Returns the keys given to Pick or Omit as a string literal or a union of them.
+function getLiteralKeys(ttype: TType|undefined): string[]|undefined {
+  const members = ttype instanceof TUnion ? ttype.ttypes : [ttype];
+  if (!members.every((m) => m instanceof TLiteral && typeof m.value === "string")) { return undefined; }
+  return members.map((m) => (m as TLiteral).value);
+}
@@ -0,0 +1,237 @@
+/**
+ * This module converts type suites to and from a JSON representation, e.g. to send them to a
+ * browser, or to store them alongside data.
+ */
+import {BasicType, basicTypes, IOptionalOptions, ITypeSuite, length, range, RestType, TArray, TEnumLiteral,
+        TEnumType, TFormat, TFunc, TGeneric, TGenericInstance, TIface, TIndexed, TIndexSignature, TInstance,
+        TIntersection, TInteger, TKeyOf, TLabeled, TLength, TLiteral, TMap, TName, TOmit, TOptional, TOverloads,
+        TParam, TParamList, TPartial, TPattern, TPick, TPromise, TProp, TRange, TReadonly, TRecord, TRefine,
+        TRequired, TSet, TTemplateLiteral, TTuple, TType, TypeSpec, TUnion} from "./types";
+
+/**
+ * A serialized type: a plain string for a type name, or an object whose "kind" is the name of the
+ * function that creates the type, e.g. {kind: "array", type: "string"} for array("string").
+ */
+export type SerializedType = string | ISerializedNode;
+
+export interface ISerializedNode {
+  kind: string;
+  [field: string]: any;
+}
+
+/**
+ * A serialized suite, as returned by serializeSuite(). The version changes when the representation
+ * changes in ways that older versions of this package can't read.
+ */
+export interface ISerializedSuite {
+  version: number;
+  types: {[name: string]: SerializedType};
+}
+
+const serializedVersion = 1;
+
+/**
+ * Returns a plain object, which may be converted to JSON, representing the types in the suite.
+ * Refinements and basic types other than the built-in ones can't be serialized, since they include
+ * functions, and throw an Error. Classes given to createCheckers() for instance types aren't
+ * included, and need to be given again along with the deserialized suite.
+ */
+export function serializeSuite(suite: ITypeSuite): ISerializedSuite {
+  const types: {[name: string]: SerializedType} = {};
+  for (const typeName of Object.keys(suite)) {
+    types[typeName] = serializeType(suite[typeName]);
+  }
+  return {version: serializedVersion, types};
+}
+
+/**
+ * Returns the suite represented by the result of serializeSuite(), or by its JSON text.
+ */
+export function deserializeSuite(json: ISerializedSuite|string): ITypeSuite {
+  const serialized: ISerializedSuite = typeof json === "string" ? JSON.parse(json) : json;
+  if (serialized.version !== serializedVersion) {
+    throw new Error(`Unsupported version of serialized suite: ${serialized.version}`);
+  }
+  const suite: ITypeSuite = {};
+  for (const typeName of Object.keys(serialized.types)) {
+    suite[typeName] = deserializeType(serialized.types[typeName]);
+  }
+  return suite;
+}
+
+/**
+ * Returns the serialized representation of a single type.
+ */
+export function serializeType(typeSpec: TypeSpec): SerializedType {
+  if (typeof typeSpec === "string") { return typeSpec; }
+  const ttype = typeSpec;
+  if (ttype instanceof TName) {
+    if (!ttype.typeArgs) { return ttype.name; }
+    return {kind: "name", name: ttype.name, typeArgs: ttype.typeArgs.map(serializeType)};
+  } else if (ttype instanceof BasicType) {
+    const basicName = Object.keys(basicTypes).find((n) => basicTypes[n] === ttype);
+    if (basicName === undefined) { throw new Error("Custom basic type can't be serialized"); }
+    return {kind: "basic", name: basicName};
+  } else if (ttype instanceof TLiteral) {
+    return serializeLiteral(ttype.value);
+  }
+  const wrapperKind = Object.keys(wrapperTypes).find((kind) => ttype instanceof wrapperTypes[kind]);
+  if (wrapperKind !== undefined) {
+    return {kind: wrapperKind, type: serializeType((ttype as TArray).ttype)};
+  } else if (ttype instanceof TMap || ttype instanceof TRecord) {
+    return {kind: ttype instanceof TMap ? "map" : "record",
+      keyType: serializeType(ttype.keyType), valueType: serializeType(ttype.valueType)};
+  } else if (ttype instanceof RestType) {
+    return {kind: "rest", type: serializeType(ttype.typeSpec)};
+  } else if (ttype instanceof TLabeled) {
+    return {kind: "labeled", label: ttype.label, type: serializeType(ttype.ttype)};
+  } else if (ttype instanceof TTuple) {
+    const serializeElement = (t: TType, label: string|undefined): SerializedType =>
+      label === undefined ? serializeType(t) : {kind: "labeled", label, type: serializeType(t)};
+    const elements = ttype.ttypes.map((t, i) => serializeElement(t, ttype.labels[i]));
+    if (ttype.restType) { elements.splice(ttype.restIndex, 0, serializeElement(ttype.restType, ttype.restLabel)); }
+    return {kind: "tuple", elements};
+  } else if (ttype instanceof TUnion || ttype instanceof TIntersection) {
+    return {kind: ttype instanceof TUnion ? "union" : "intersection", types: ttype.ttypes.map(serializeType)};
+  } else if (ttype instanceof TIface) {
+    return {
+      kind: "iface",
+      bases: ttype.bases,
+      props: ttype.props.map((p) => ({name: p.name, ...serializeOptional(p.ttype, p.isOpt, p.options)})),
+      indexSignatures: ttype.indexSignatures.map((s) =>
+        ({keyType: serializeType(s.keyType), valueType: serializeType(s.valueType)})),
+    };
+  } else if (ttype instanceof TOptional) {
+    return {kind: "opt", ...serializeOptional(ttype.ttype, true, ttype.options)};
+  } else if (ttype instanceof TTemplateLiteral) {
+    return {kind: "template", texts: ttype.texts, types: ttype.ttypes.map(serializeType)};
+  } else if (ttype instanceof TInteger) {
+    return {kind: "integer"};
+  } else if (ttype instanceof TRange || ttype instanceof TLength) {
+    // Infinite bounds are the same as none, and are left out, since JSON can't represent them.
+    return {kind: ttype instanceof TRange ? "range" : "length", min: finiteOrUndefined(ttype.min),
+      max: finiteOrUndefined(ttype.max)};
+  } else if (ttype instanceof TPattern) {
+    return {kind: "pattern", source: ttype.regexp.source, flags: ttype.regexp.flags};
+  } else if (ttype instanceof TFormat) {
+    return {kind: "format", format: ttype.format};
+  } else if (ttype instanceof TEnumType) {
+    return {kind: "enumtype", members: ttype.members};
+  } else if (ttype instanceof TEnumLiteral) {
+    return {kind: "enumlit", enumName: ttype.enumName, prop: ttype.prop};
+  } else if (ttype instanceof TPick || ttype instanceof TOmit) {
+    return {kind: ttype instanceof TPick ? "pick" : "omit", type: serializeType(ttype.ttype), keys: ttype.keys};
+  } else if (ttype instanceof TIndexed) {
+    return {kind: "indexed", type: serializeType(ttype.ttype), key: ttype.key};
+  } else if (ttype instanceof TInstance) {
+    return {kind: "instance", className: ttype.className, type: ttype.ttype && serializeType(ttype.ttype)};
+  } else if (ttype instanceof TFunc) {
+    return serializeFunc(ttype);
+  } else if (ttype instanceof TOverloads) {
+    return {kind: "overloads", signatures: ttype.signatures.map(serializeFunc)};
+  } else if (ttype instanceof TGeneric) {
+    return {kind: "generic", params: ttype.params, type: serializeType(ttype.ttype)};
+  } else if (ttype instanceof TGenericInstance) {
+    return {kind: "instantiate", generic: serializeType(ttype.generic),
+      typeArgs: ttype.typeArgs.map(serializeType)};
+  } else if (ttype instanceof TRefine) {
+    throw new Error("Refinement can't be serialized, since its predicate is a function");
+  }
+  throw new Error("Type can't be serialized");
+}
+
+/**
+ * Returns the type represented by the result of serializeType().
+ */
+export function deserializeType(serialized: SerializedType): TType {
+  if (typeof serialized === "string") { return new TName(serialized); }
+  const node = serialized;
+  const type = () => deserializeType(node.type);
+  if (wrapperTypes.hasOwnProperty(node.kind)) { return new wrapperTypes[node.kind](type()); }
+  switch (node.kind) {
+    case "name": return new TName(node.name, node.typeArgs.map(deserializeType));
+    case "basic": {
+      if (!basicTypes.hasOwnProperty(node.name)) { throw new Error(`Unknown basic type ${node.name}`); }
+      return basicTypes[node.name];
+    }
+    case "lit": return new TLiteral(node.value);
+    case "map": return new TMap(deserializeType(node.keyType), deserializeType(node.valueType));
+    case "record": return new TRecord(deserializeType(node.keyType), deserializeType(node.valueType));
+    case "rest": return new RestType(type());
+    case "labeled": return new TLabeled(node.label, type());
+    case "tuple": return new TTuple(node.elements.map(deserializeType));
+    case "union": return new TUnion(node.types.map(deserializeType));
+    case "intersection": return new TIntersection(node.types.map(deserializeType));
+    case "iface":
+      return new TIface(node.bases,
+        node.props.map((p: ISerializedNode) => new TProp(p.name, deserializeType(p.type), Boolean(p.optional),
+          getOptionalOptions(p))), undefined,
+        node.indexSignatures.map((s: ISerializedNode) =>
+          new TIndexSignature(deserializeType(s.keyType), deserializeType(s.valueType))));
+    case "opt": return new TOptional(type(), getOptionalOptions(node));
+    case "template": return new TTemplateLiteral(node.texts, node.types.map(deserializeType));
+    case "integer": return new TInteger();
+    // The factories also accept null for a missing bound, e.g. from JSON of an infinite bound.
+    case "range": return range(node.min, node.max);
+    case "length": return length(node.min, node.max);
+    case "pattern": return new TPattern(new RegExp(node.source, node.flags));
+    case "format": return new TFormat(node.format);
+    case "enumtype": return new TEnumType(node.members);
+    case "enumlit": return new TEnumLiteral(node.enumName, node.prop);
+    case "pick": return new TPick(type(), node.keys);
+    case "omit": return new TOmit(type(), node.keys);
+    case "indexed": return new TIndexed(type(), node.key);
+    case "instance": return new TInstance(node.className, node.type === undefined ? undefined : type());
+    case "func": return deserializeFunc(node);
+    case "overloads": return new TOverloads(node.signatures.map(deserializeFunc));
+    case "generic": return new TGeneric(node.params, type());
+    case "instantiate": {
+      const generic = deserializeType(node.generic);
+      if (!(generic instanceof TGeneric)) { throw new Error("Instantiated type is not generic"); }
+      return new TGenericInstance(generic, node.typeArgs.map(deserializeType));
+    }
+  }
+  throw new Error(`Unknown kind of serialized type: ${node.kind}`);
+}
+
+// Types that wrap a single other type, by their kind.
+const wrapperTypes: {[kind: string]: new (ttype: TType) => TType} = {
+  array: TArray, set: TSet, promise: TPromise, partial: TPartial, required: TRequired, readonly: TReadonly,
+  keyof: TKeyOf,
+};
+
+// A literal of undefined, which JSON doesn't support, is represented without a value.
+function serializeLiteral(value: any): ISerializedNode {
+  return value === undefined ? {kind: "lit"} : {kind: "lit", value};
+}
+
+// Returns the fields of an optional property, tuple element, or function parameter.
+function serializeOptional(ttype: TType, isOpt: boolean, options: IOptionalOptions = {}): {[field: string]: any} {
+  const result: {[field: string]: any} = {type: serializeType(ttype)};
+  if (isOpt) { result.optional = true; }
+  if (options.hasOwnProperty("default")) { result.default = options.default; }
+  return result;
+}
+
+function getOptionalOptions(node: ISerializedNode): IOptionalOptions {
+  return node.hasOwnProperty("default") ? {default: node.default} : {};
+}
+
+function serializeFunc(ttype: TFunc): ISerializedNode {
+  return {
+    kind: "func",
+    params: ttype.paramList.params.map((p) => ({name: p.name, ...serializeOptional(p.ttype, p.isOpt)})),
+    result: serializeType(ttype.result),
+  };
+}
+
+function deserializeFunc(node: ISerializedNode): TFunc {
+  if (node.kind !== "func") { throw new Error(`Overload is not a function: ${node.kind}`); }
+  const params = node.params.map((p: ISerializedNode) =>
+    new TParam(p.name, deserializeType(p.type), Boolean(p.optional)));
+  return new TFunc(new TParamList(params), deserializeType(node.result));
+}
+
+function finiteOrUndefined(value: number|undefined): number|undefined {
+  return value !== undefined && isFinite(value) ? value : undefined;
+}
@@ -3,17 +3,61 @@
  */
 // tslint:disable:no-shadowed-variable prefer-for-of
 
-import {IContext, NoopContext} from "./util";
+import {IContext, LabeledIndex, NoopContext, PathElement} from "./util";
 
 export type CheckerFunc = (value: any, ctx: IContext) => boolean;
 
+/**
+ * Function returning the index of the union member type that a value satisfies, or -1 if none.
+ */
+export type MatcherFunc = (value: any, ctx: IContext) => number;
+
+/**
+ * Function returning a converted copy of a value. Conversion is best-effort: values that can't be
+ * converted are returned as is, and the result should be validated using a CheckerFunc.
+ */
+export type ConverterFunc = (value: any) => any;
+
+/**
+ * Options for TType.getChecker(), from the options passed to createCheckers().
+ */
+export interface ICheckOptions {
+  // Classes used by instance types, by name, e.g. {classes: {Decimal}} for instance("Decimal").
+  classes?: IClasses;
+  // Check that functions require no more arguments than their types have required parameters.
+  checkArity?: boolean;
+}
+
+/**
+ * Options for TType.getConverter(), which determine what conversions to perform. They include the
+ * options for checkers, which converters use to check converted values.
+ */
+export interface IConvertOptions extends ICheckOptions {
+  // Convert strings to the numbers, booleans, Dates or enum values required by the type.
+  coerce?: boolean;
+  // Omit object properties and tuple elements not declared by the type.
+  strip?: boolean;
+  // Fill in missing optional properties and tuple elements which have default values.
+  defaults?: boolean;
+}
+
 /** Node that represents a type. */
 export abstract class TType {
   // allowedProps is used for intersections and inheritance, since strict checks require member
   // types to share properties.
-  public abstract getChecker(suite: ITypeSuite, strict: boolean, allowedProps?: Set<string>): CheckerFunc;
+  public abstract getChecker(suite: ITypeSuite, strict: boolean, allowedProps?: Set<string>,
+                             options?: ICheckOptions): CheckerFunc;
+
+  // Returns a function to convert values according to options. The default leaves values as is,
+  // which is right for types with no conversions and no nested types.
+  public getConverter(suite: ITypeSuite, strict: boolean, allowedProps?: Set<string>,
+                      options?: IConvertOptions): ConverterFunc {
+    return identity;
+  }
 }
 
+function identity(value: any): any { return value; }
+
 /**
  * Descriptor from which TType may be build (by parseSpec()). A plain string is equivalent to
  * name(string).
@@ -32,7 +76,7 @@ export interface ITypeSuite {
   [name: string]: TType;
 }
 
-function getNamedType(suite: ITypeSuite, name: string): TType {
+export function getNamedType(suite: ITypeSuite, name: string): TType {
   const ttype = suite[name];
   if (!ttype) { throw new Error(`Unknown type ${name}`); }
   return ttype;
@@ -42,14 +86,35 @@ function getNamedType(suite: ITypeSuite, name: string): TType {
  * Defines a type name, either built-in, or defined in this suite. It can typically be included in
  * the specs as just a plain string.
  */
-export function name(value: string): TName { return new TName(value); }
+export function name(value: string, typeArgs?: TypeSpec[]): TName {
+  return new TName(value, typeArgs && typeArgs.map(parseSpec));
+}
 export class TName extends TType {
   private _checkerBeingBuilt: CheckerFunc|undefined;
-  private _failMsg: string;
+  private _isRecursive: boolean = false;
+  private _converterBeingBuilt: ConverterFunc|undefined;
+  private _isConverterRecursive: boolean = false;
 
-  constructor(public name: string) { super(); this._failMsg = `is not a ${name}`; }
+  // If typeArgs are given, the name refers to an instantiation of a generic type, e.g.
+  // name("Paginated", ["User"]) for Paginated<User>.
+  constructor(public name: string, public typeArgs?: TType[]) {
+    super();
+  }
 
-  public getChecker(suite: ITypeSuite, strict: boolean, allowedProps?: Set<string>): CheckerFunc {
+  public getChecker(suite: ITypeSuite, strict: boolean, allowedProps?: Set<string>,
+                    options: ICheckOptions = {}): CheckerFunc {
+    // Within a generic definition, names of type arguments are resolved to the type arguments.
+    const failMsg = `is not a ${getResolvedName(this, suite)}`;
+    if (this.typeArgs) {
+      // Recursive references are handled by the generic type, which caches its instantiations.
+      const checker = this._getGeneric(suite).getInstanceChecker(this.typeArgs, suite, strict, allowedProps, options);
+      return (value: any, ctx: IContext) => checker(value, ctx) ? true : ctx.fail(null, failMsg, 0);
+    }
+    // A type parameter is resolved in a different suite for each instantiation of its generic
+    // type, e.g. for Box<Box<string>>, so it can't share the cache below. Recursive references
+    // through it are handled by the generic type.
+    const named = getNamedType(suite, this.name);
+    if (named instanceof TTypeArg) { return named.getChecker(suite, strict, allowedProps, options); }
     // Using names, we can reference a type recursively in its own definition. To avoid an
     // infinite recursion in getChecker() calls, we cache and reuse the checker that's being built
     // when it references its own TName node. Note that it's important to reuse the result only
@@ -57,13 +122,21 @@ export class TName extends TType {
     // we are caching only for the current call and only for the same TName object (not another
     // instance of name() call for the same name).
     //
-    // Note also that this is about handling recursive types; it does NOT help validating data
-    // with circular references.
+    // Checking a recursive type may loop forever on data with circular references, so when we
+    // find that the type is recursive, its checker also keeps track of the values being checked.
     let checkerFunc = this._checkerBeingBuilt;
-    if (!checkerFunc) {
-      this._checkerBeingBuilt = (value, ctx) => checkerFunc!(value, ctx);
+    if (checkerFunc) {
+      this._isRecursive = true;
+    } else {
+      // The checker being built may get called before it's ready, by TIface to see if a property
+      // may be undefined; a recursive type is assumed not to allow that.
+      this._checkerBeingBuilt = (value, ctx) =>
+        checkerFunc ? checkerFunc(value, ctx) : ctx.fail(null, failMsg, 0);
+      this._isRecursive = false;
       try {
-        checkerFunc = this._getChecker(suite, strict, allowedProps);
+        checkerFunc = this._getChecker(named, suite, strict, failMsg, allowedProps, options);
+        if (this._isRecursive) { recursiveTypes.add(named); }
+        if (recursiveTypes.has(named)) { checkerFunc = getCircularSafeChecker(checkerFunc, named); }
       } finally {
         this._checkerBeingBuilt = undefined;
       }
@@ -71,15 +144,305 @@ export class TName extends TType {
     return checkerFunc;
   }
 
-  private _getChecker(suite: ITypeSuite, strict: boolean, allowedProps?: Set<string>): CheckerFunc {
-    const ttype = getNamedType(suite, this.name);
-    const checker = ttype.getChecker(suite, strict, allowedProps);
+  public getConverter(suite: ITypeSuite, strict: boolean, allowedProps?: Set<string>,
+                      options: IConvertOptions = {}): ConverterFunc {
+    if (this.typeArgs) {
+      return this._getGeneric(suite).getInstanceConverter(this.typeArgs, suite, strict, allowedProps, options);
+    }
+    const named = getNamedType(suite, this.name);
+    if (named instanceof TTypeArg) { return named.getConverter(suite, strict, allowedProps, options); }
+    // Cache the converter being built to support recursive types, as in getChecker(). Converters
+    // of recursive types also keep track of the values being converted, to detect circular
+    // references, which can't be copied.
+    let converterFunc = this._converterBeingBuilt;
+    if (converterFunc) {
+      this._isConverterRecursive = true;
+    } else {
+      this._converterBeingBuilt = (value) => converterFunc!(value);
+      this._isConverterRecursive = false;
+      try {
+        converterFunc = named.getConverter(suite, strict, allowedProps, options);
+        if (this._isConverterRecursive) { recursiveTypes.add(named); }
+        if (recursiveTypes.has(named)) { converterFunc = getCircularSafeConverter(converterFunc); }
+      } finally {
+        this._converterBeingBuilt = undefined;
+      }
+    }
+    return converterFunc;
+  }
+
+  private _getChecker(ttype: TType, suite: ITypeSuite, strict: boolean, failMsg: string,
+                      allowedProps: Set<string>|undefined, options: ICheckOptions): CheckerFunc {
+    const checker = ttype.getChecker(suite, strict, allowedProps, options);
     if (ttype instanceof BasicType || ttype instanceof TName) { return checker; }
     // For complex types, add an additional "is not a <Type>" message on failure.
-    return (value: any, ctx: IContext) => checker(value, ctx) ? true : ctx.fail(null, this._failMsg, 0);
+    return (value: any, ctx: IContext) => checker(value, ctx) ? true : ctx.fail(null, failMsg, 0);
+  }
+
+  private _getGeneric(suite: ITypeSuite): TGeneric {
+    const ttype = getNamedType(suite, this.name);
+    if (!(ttype instanceof TGeneric)) { throw new Error(`Type ${this.name} is not generic`); }
+    return ttype;
+  }
+}
+
+// Types found to be recursive while building checkers or converters. Their checkers and
+// converters need to handle values with circular references.
+const recursiveTypes: WeakSet<TType> = new WeakSet();
+
+/**
+ * Wraps the checker of a recursive type to detect values that are reached through a circular
+ * reference while they are being checked against this same type. Those are considered valid
+ * (their check is already in progress), unless circular references are disallowed.
+ */
+function getCircularSafeChecker(checker: CheckerFunc, key: object): CheckerFunc {
+  return (value: any, ctx: IContext) => {
+    if (typeof value !== "object" || value === null) { return checker(value, ctx); }
+    if (!ctx.enter(value, key)) { return ctx.circular(); }
+    const ok = checker(value, ctx);
+    ctx.leave(value);
+    return ok;
+  };
+}
+
+/**
+ * Thrown by converters when a value is reached through a circular reference while it's being
+ * converted to the same type. It's exported for other modules of this package, but isn't part of
+ * the public interface.
+ */
+export class CircularReferenceError extends Error {
+  constructor() {
+    super("is a circular reference");
+    Object.setPrototypeOf(this, CircularReferenceError.prototype);
   }
 }
 
+/**
+ * Wraps the converter of a recursive type to detect values that are reached through a circular
+ * reference while they are being converted by it. Converted copies can't reproduce the cycle, so
+ * those fail with CircularReferenceError.
+ */
+function getCircularSafeConverter(converter: ConverterFunc): ConverterFunc {
+  const converting: Set<object> = new Set();
+  return (value: any) => {
+    if (typeof value !== "object" || value === null) { return converter(value); }
+    if (converting.has(value)) { throw new CircularReferenceError(); }
+    converting.add(value);
+    try {
+      return converter(value);
+    } finally {
+      converting.delete(value);
+    }
+  };
+}
+
+/**
+ * Returns a checker for a type used at the top level, rather than as part of another type. If
+ * the type is recursive, the top-level value is tracked as in checkers of recursive named types,
+ * so that circular references back to it are detected right away.
+ */
+export function getRootChecker(ttype: TType, suite: ITypeSuite, strict: boolean, options: ICheckOptions): CheckerFunc {
+  const checker = ttype.getChecker(suite, strict, undefined, options);
+  return recursiveTypes.has(ttype) ? getCircularSafeChecker(checker, ttype) : checker;
+}
+
+/**
+ * Defines a generic type, with type parameters that may be used by name in its definition, e.g.
+ * generic(["T"], iface([], {items: array("T")})). It's referenced with type arguments as
+ * name("Paginated", ["User"]). When used directly, all its type parameters are taken to be "any".
+ */
+export function generic(params: string[], typeSpec: TypeSpec): TGeneric {
+  return new TGeneric(params, parseSpec(typeSpec));
+}
+export class TGeneric extends TType {
+  // Instantiations being built, keyed by their type arguments, to support recursive generics.
+  private _checkersBeingBuilt = new Map<string, IInstanceBeingBuilt<CheckerFunc>>();
+  private _convertersBeingBuilt = new Map<string, IInstanceBeingBuilt<ConverterFunc>>();
+
+  constructor(public params: string[], public ttype: TType) { super(); }
+
+  /**
+   * Returns a type for the instantiation of this generic type with the given type arguments.
+   */
+  public instantiate(...typeArgs: TypeSpec[]): TGenericInstance {
+    return new TGenericInstance(this, typeArgs.map(parseSpec));
+  }
+
+  public getChecker(suite: ITypeSuite, strict: boolean, allowedProps?: Set<string>,
+                    options: ICheckOptions = {}): CheckerFunc {
+    return this.getInstanceChecker(this.params.map(() => name("any")), suite, strict, allowedProps, options);
+  }
+
+  public getConverter(suite: ITypeSuite, strict: boolean, allowedProps?: Set<string>,
+                      options: IConvertOptions = {}): ConverterFunc {
+    return this.getInstanceConverter(this.params.map(() => name("any")), suite, strict, allowedProps, options);
+  }
+
+  /**
+   * Returns the checker for this generic type instantiated with typeArgs, which are resolved in
+   * the given suite.
+   */
+  public getInstanceChecker(typeArgs: TType[], suite: ITypeSuite, strict: boolean, allowedProps?: Set<string>,
+                            options: ICheckOptions = {}): CheckerFunc {
+    // As for recursive named types (see TName.getChecker()), we reuse the checker being built when
+    // the same instantiation is referenced in its own definition. A generic type may be
+    // referenced with different type arguments in its definition, so the instantiations being
+    // built are keyed by what their type arguments resolve to.
+    const key = this._getInstanceKey(typeArgs, suite);
+    const building = this._checkersBeingBuilt.get(key);
+    if (building) {
+      building.isRecursive = true;
+      return building.func;
+    }
+    let checkerFunc: CheckerFunc|undefined;
+    const instance: IInstanceBeingBuilt<CheckerFunc> = {
+      func: (value, ctx) => checkerFunc ? checkerFunc(value, ctx) : ctx.fail(null, "is not ready", 0),
+      isRecursive: false,
+    };
+    this._checkersBeingBuilt.set(key, instance);
+    try {
+      checkerFunc = this.ttype.getChecker(this.getScope(typeArgs, suite), strict, allowedProps, options);
+      if (instance.isRecursive) { checkerFunc = getCircularSafeChecker(checkerFunc, instance); }
+    } finally {
+      this._checkersBeingBuilt.delete(key);
+    }
+    return checkerFunc;
+  }
+
+  /**
+   * Returns the converter for this generic type instantiated with typeArgs, which are resolved in
+   * the given suite.
+   */
+  public getInstanceConverter(typeArgs: TType[], suite: ITypeSuite, strict: boolean, allowedProps?: Set<string>,
+                              options: IConvertOptions = {}): ConverterFunc {
+    const key = this._getInstanceKey(typeArgs, suite);
+    const building = this._convertersBeingBuilt.get(key);
+    if (building) {
+      building.isRecursive = true;
+      return building.func;
+    }
+    let converterFunc: ConverterFunc|undefined;
+    const instance: IInstanceBeingBuilt<ConverterFunc> = {func: (value) => converterFunc!(value), isRecursive: false};
+    this._convertersBeingBuilt.set(key, instance);
+    try {
+      converterFunc = this.ttype.getConverter(this.getScope(typeArgs, suite), strict, allowedProps, options);
+      if (instance.isRecursive) { converterFunc = getCircularSafeConverter(converterFunc); }
+    } finally {
+      this._convertersBeingBuilt.delete(key);
+    }
+    return converterFunc;
+  }
+
+  private _getInstanceKey(typeArgs: TType[], suite: ITypeSuite): string {
+    // A definition like Nested<T> = {nested: Nested<T[]>} would produce new instantiations forever.
+    if (this._checkersBeingBuilt.size >= maxInstantiationDepth ||
+        this._convertersBeingBuilt.size >= maxInstantiationDepth) {
+      throw new Error("Generic type instantiation is too deep");
+    }
+    return typeArgs.map((t) => getTypeArgKey(t, suite)).join(",");
+  }
+
+  /**
+   * Returns the suite in which to resolve the definition of this type, where type parameters
+   * refer to the given type arguments.
+   */
+  public getScope(typeArgs: TType[], suite: ITypeSuite): ITypeSuite {
+    if (typeArgs.length !== this.params.length) {
+      throw new Error(`Generic type expects ${this.params.length} type arguments, got ${typeArgs.length}`);
+    }
+    const scope: ITypeSuite = Object.create(suite);
+    this.params.forEach((param, i) => { scope[param] = new TTypeArg(typeArgs[i], suite); });
+    return scope;
+  }
+}
+
+interface IInstanceBeingBuilt<F> {
+  func: F;
+  isRecursive: boolean;
+}
+
+const maxInstantiationDepth = 50;
+
+/**
+ * An instantiation of a generic type with the given type arguments, e.g. as returned by
+ * generic(...).instantiate("User").
+ */
+export class TGenericInstance extends TType {
+  constructor(public generic: TGeneric, public typeArgs: TType[]) { super(); }
+
+  public getChecker(suite: ITypeSuite, strict: boolean, allowedProps?: Set<string>,
+                    options: ICheckOptions = {}): CheckerFunc {
+    return this.generic.getInstanceChecker(this.typeArgs, suite, strict, allowedProps, options);
+  }
+
+  public getConverter(suite: ITypeSuite, strict: boolean, allowedProps?: Set<string>,
+                      options: IConvertOptions = {}): ConverterFunc {
+    return this.generic.getInstanceConverter(this.typeArgs, suite, strict, allowedProps, options);
+  }
+}
+
+// A type argument bound to a type parameter. It's resolved in the suite where it was given, rather
+// than in the suite of the generic definition where it's used. It's exported for other modules of
+// this package, but isn't part of the public interface.
+export class TTypeArg extends TType {
+  constructor(public ttype: TType, public suite: ITypeSuite) { super(); }
+
+  public getChecker(suite: ITypeSuite, strict: boolean, allowedProps?: Set<string>,
+                    options: ICheckOptions = {}): CheckerFunc {
+    return this.ttype.getChecker(this.suite, strict, allowedProps, options);
+  }
+
+  public getConverter(suite: ITypeSuite, strict: boolean, allowedProps?: Set<string>,
+                      options: IConvertOptions = {}): ConverterFunc {
+    return this.ttype.getConverter(this.suite, strict, allowedProps, options);
+  }
+}
+
+/**
+ * Returns a string identifying what a type argument resolves to, so that the same instantiation
+ * can be recognized when referenced again from within a generic definition. Named types are
+ * identified by name; other types by the type object and the suite it's resolved in.
+ */
+function getTypeArgKey(ttype: TType, suite: ITypeSuite): string {
+  if (ttype instanceof TName) {
+    const named = suite[ttype.name];
+    if (named instanceof TTypeArg) { return getTypeArgKey(named.ttype, named.suite); }
+    if (!ttype.typeArgs) { return ttype.name; }
+    return `${ttype.name}<${ttype.typeArgs.map((t) => getTypeArgKey(t, suite)).join(",")}>`;
+  }
+  return `#${getObjectId(ttype)}@${getObjectId(suite)}`;
+}
+
+const objectIds: WeakMap<object, number> = new WeakMap();
+let nextObjectId = 0;
+function getObjectId(obj: object): number {
+  let id = objectIds.get(obj);
+  if (id === undefined) {
+    id = nextObjectId++;
+    objectIds.set(obj, id);
+  }
+  return id;
+}
+
+function getInstanceName(genericName: string, typeArgs: TType[]): string {
+  return `${genericName}<${typeArgs.map((t) => getPlaceholderName(t)).join(", ")}>`;
+}
+
+/**
+ * Returns the name of a type as it's resolved in the given suite, i.e. with the names of type
+ * parameters replaced by their type arguments, e.g. "List<number>" rather than "List<T>".
+ */
+function getResolvedName(ttype: TType, suite: ITypeSuite): string {
+  if (ttype instanceof TName) {
+    const named = suite[ttype.name];
+    if (named instanceof TTypeArg) { return getResolvedName(named.ttype, named.suite); }
+    if (ttype.typeArgs) {
+      return `${ttype.name}<${ttype.typeArgs.map((t) => getResolvedName(t, suite)).join(", ")}>`;
+    }
+  }
+  return getPlaceholderName(ttype);
+}
+
 /**
  * Defines a literal value, e.g. lit('hello') or lit(123).
  */
@@ -96,6 +459,24 @@ export class TLiteral extends TType {
   public getChecker(suite: ITypeSuite, strict: boolean): CheckerFunc {
     return (value: any, ctx: IContext) => (value === this.value) ? true : ctx.fail(null, this._failMsg, -1);
   }
+
+  public getConverter(suite: ITypeSuite, strict: boolean, allowedProps?: Set<string>,
+                      options: IConvertOptions = {}): ConverterFunc {
+    return options.coerce ? getLiteralCoercer([this.value]) : identity;
+  }
+}
+
+/**
+ * Returns a converter that turns a string into whichever of the given non-string literal values
+ * it spells, e.g. "17" into 17, or "true" into true.
+ */
+function getLiteralCoercer(values: any[]): ConverterFunc {
+  const byString = new Map<string, any>();
+  for (const v of values) {
+    if (typeof v !== "string") { byString.set(String(v), v); }
+  }
+  if (byString.size === 0) { return identity; }
+  return (value: any) => (typeof value === "string" && byString.has(value)) ? byString.get(value) : value;
 }
 
 /**
@@ -112,8 +493,9 @@ export class TArray extends TType {
     }
   }
 
-  public getChecker(suite: ITypeSuite, strict: boolean): CheckerFunc {
-    const itemChecker = this.ttype.getChecker(suite, strict);
+  public getChecker(suite: ITypeSuite, strict: boolean, allowedProps?: Set<string>,
+                    options: ICheckOptions = {}): CheckerFunc {
+    const itemChecker = this.ttype.getChecker(suite, strict, undefined, options);
     return (value: any, ctx: IContext) => {
       if (!Array.isArray(value)) { return ctx.fail(null, "is not an array", 0); }
       for (let i = 0; i < value.length; i++) {
@@ -123,31 +505,128 @@ export class TArray extends TType {
       return true;
     };
   }
+
+  public getConverter(suite: ITypeSuite, strict: boolean, allowedProps?: Set<string>,
+                      options: IConvertOptions = {}): ConverterFunc {
+    const itemConverter = this.ttype.getConverter(suite, strict, undefined, options);
+    return (value: any) => Array.isArray(value) ? value.map((v) => itemConverter(v)) : value;
+  }
+}
+
+/**
+ * Defines a Map, e.g. map("string", "number") for Map<string, number>.
+ */
+export function map(keySpec: TypeSpec, valueSpec: TypeSpec): TMap {
+  return new TMap(parseSpec(keySpec), parseSpec(valueSpec));
+}
+export class TMap extends TType {
+  constructor(public keyType: TType, public valueType: TType) { super(); }
+
+  public getChecker(suite: ITypeSuite, strict: boolean, allowedProps?: Set<string>,
+                    options: ICheckOptions = {}): CheckerFunc {
+    const keyChecker = this.keyType.getChecker(suite, strict, undefined, options);
+    const valueChecker = this.valueType.getChecker(suite, strict, undefined, options);
+    return (value: any, ctx: IContext) => {
+      if (!isNativeMap(value)) { return ctx.fail(null, "is not a Map", 0); }
+      const entries: Array<[any, any]> = Array.from(value);
+      for (let i = 0; i < entries.length; i++) {
+        const [k, v] = entries[i];
+        if (!keyChecker(k, ctx)) { return ctx.fail(`keys()[${i}]`, null, 1); }
+        if (!valueChecker(v, ctx)) { return ctx.fail(getMapValuePath(k, i), null, 1); }
+      }
+      return true;
+    };
+  }
+
+  public getConverter(suite: ITypeSuite, strict: boolean, allowedProps?: Set<string>,
+                      options: IConvertOptions = {}): ConverterFunc {
+    const keyConverter = this.keyType.getConverter(suite, strict, undefined, options);
+    const valueConverter = this.valueType.getConverter(suite, strict, undefined, options);
+    return (value: any) => isNativeMap(value) ?
+      new Map(Array.from(value as Map<any, any>, ([k, v]): [any, any] => [keyConverter(k), valueConverter(v)])) :
+      value;
+  }
+}
+
+// Describes the value for the given key as get(key) where the key can be shown, e.g. get("x").
+function getMapValuePath(key: any, index: number): string {
+  if (typeof key === "string") { return `get(${JSON.stringify(key)})`; }
+  if (typeof key === "bigint") { return `get(${key}n)`; }
+  if (typeof key === "number" || typeof key === "boolean" || key === null || key === undefined) {
+    return `get(${key})`;
+  }
+  return `entries()[${index}][1]`;
+}
+
+/**
+ * Defines a Set, e.g. set("string") for Set<string>.
+ */
+export function set(typeSpec: TypeSpec): TSet { return new TSet(parseSpec(typeSpec)); }
+export class TSet extends TType {
+  constructor(public ttype: TType) { super(); }
+
+  public getChecker(suite: ITypeSuite, strict: boolean, allowedProps?: Set<string>,
+                    options: ICheckOptions = {}): CheckerFunc {
+    const itemChecker = this.ttype.getChecker(suite, strict, undefined, options);
+    return (value: any, ctx: IContext) => {
+      if (!isNativeSet(value)) { return ctx.fail(null, "is not a Set", 0); }
+      const items = Array.from(value);
+      for (let i = 0; i < items.length; i++) {
+        if (!itemChecker(items[i], ctx)) { return ctx.fail(`values()[${i}]`, null, 1); }
+      }
+      return true;
+    };
+  }
+
+  public getConverter(suite: ITypeSuite, strict: boolean, allowedProps?: Set<string>,
+                      options: IConvertOptions = {}): ConverterFunc {
+    const itemConverter = this.ttype.getConverter(suite, strict, undefined, options);
+    return (value: any) => isNativeSet(value) ? new Set(Array.from(value as Set<any>, itemConverter)) : value;
+  }
 }
 
 /**
- * Defines a rest type, e.g. tuple('string', rest(array('number'))).
+ * Defines a Promise, e.g. promise("string") for Promise<string>. Any thenable is accepted; its
+ * resolved value is only checked by Checker.checkAsync().
+ */
+export function promise(typeSpec: TypeSpec): TPromise { return new TPromise(parseSpec(typeSpec)); }
+export class TPromise extends TType {
+  constructor(public ttype: TType) { super(); }
+
+  public getChecker(suite: ITypeSuite, strict: boolean): CheckerFunc {
+    return (value: any, ctx: IContext) => {
+      const isThenable = (typeof value === "object" && value !== null || typeof value === "function") &&
+        typeof value.then === "function";
+      return isThenable ? true : ctx.fail(null, "is not a Promise", 0);
+    };
+  }
+}
+
+/**
+ * Defines a rest type, e.g. tuple('string', rest(array('number'))). It may be anywhere in a tuple,
+ * e.g. tuple(rest(array('string')), 'number') for [...string[], number].
  */
 export function rest(typeSpec: TypeSpec): RestType {
   return new RestType(typeSpec);
 }
 export class RestType extends TType{
   private _start?: number;
+  private _after: number = 0;
   constructor(public typeSpec: TypeSpec) { super(); }
 
-  setStart(start: number) {
+  // Sets the position of the rest elements in a tuple, given the number of tuple elements before
+  // them, and after them.
+  setStart(start: number, after: number = 0) {
     this._start = start;
+    this._after = after;
   }
 
-  getChecker(suite: ITypeSuite, strict: boolean): CheckerFunc {
-    const arrType = typeof this.typeSpec === "string" ? getNamedType(suite, this.typeSpec) : this.typeSpec;
-    if (!(arrType instanceof TArray)) {
-      throw new Error("Rest type must be an array");
-    }
-    const itemChecker = arrType.ttype.getChecker(suite, strict);
+  getChecker(suite: ITypeSuite, strict: boolean, allowedProps?: Set<string>, options: ICheckOptions = {}): CheckerFunc {
+    const itemChecker = this.getArrayType(suite).ttype.getChecker(suite, strict, undefined, options);
     const start = this._start!;
+    const after = this._after;
     return (value: any, ctx: IContext) => {
-      for (let i = start; i < value.length; i++) {
+      for (let i = start; i < value.length - after; i++) {
         if (!itemChecker(value[i], ctx)) {
           return ctx.fail(i, null, 1);
         }
@@ -155,41 +634,110 @@ export class RestType extends TType{
       return true;
     }
   }
+
+  // Converts the elements of the array value at the rest position, in place.
+  getConverter(suite: ITypeSuite, strict: boolean, allowedProps?: Set<string>,
+               options: IConvertOptions = {}): ConverterFunc {
+    const itemConverter = this.getArrayType(suite).ttype.getConverter(suite, strict, undefined, options);
+    const start = this._start!;
+    const after = this._after;
+    return (value: any[]) => {
+      for (let i = start; i < value.length - after; i++) {
+        value[i] = itemConverter(value[i]);
+      }
+      return value;
+    };
+  }
+
+  /**
+   * Returns the array type of the rest elements.
+   */
+  public getArrayType(suite: ITypeSuite): TArray {
+    const arrType = typeof this.typeSpec === "string" ? getNamedType(suite, this.typeSpec) : this.typeSpec;
+    if (!(arrType instanceof TArray)) {
+      throw new Error("Rest type must be an array");
+    }
+    return arrType;
+  }
 }
 
 /**
- * Defines a tuple type, e.g. tuple('string', 'number').
+ * Defines a labeled tuple element, e.g. tuple(labeled('first', 'string'), labeled('second',
+ * opt('number'))) for [first: string, second?: number]. Labels are used in error paths, as in
+ * "value[first] is not a string", except for rest elements, which are reported by index.
+ */
+export function labeled(label: string, typeSpec: TypeSpec): TLabeled {
+  return new TLabeled(label, parseSpec(typeSpec));
+}
+export class TLabeled extends TType {
+  constructor(public label: string, public ttype: TType) { super(); }
+
+  public getChecker(suite: ITypeSuite, strict: boolean, allowedProps?: Set<string>,
+                    options: ICheckOptions = {}): CheckerFunc {
+    return this.ttype.getChecker(suite, strict, undefined, options);
+  }
+
+  public getConverter(suite: ITypeSuite, strict: boolean, allowedProps?: Set<string>,
+                      options: IConvertOptions = {}): ConverterFunc {
+    return this.ttype.getConverter(suite, strict, undefined, options);
+  }
+}
+
+/**
+ * Defines a tuple type, e.g. tuple('string', 'number'). Elements may be optional, as in
+ * tuple('string', opt('number')), labeled, and one of them may be a rest element.
  */
 export function tuple(...typeSpec: TypeSpec[]): TTuple {
   return new TTuple(typeSpec.map((t) => parseSpec(t)));
 }
 export class TTuple extends TType {
+  // Types of the elements other than the rest element, with labels removed.
+  public ttypes: TType[];
+  // Labels of those elements, or undefined for elements that aren't labeled.
+  public labels: Array<string|undefined>;
 
-  private _restType?: RestType;
+  // The rest element, if any, and its label, which isn't used in error paths but is kept, e.g. for
+  // serializing the tuple.
+  public restType?: RestType;
+  public restLabel?: string;
+  // Number of elements before the rest element; those after it are matched to the end of arrays.
+  public restIndex: number;
 
-  constructor(public ttypes: TType[]) {
+  constructor(elements: TType[]) {
     super();
-    const last = ttypes[ttypes.length - 1];
-    if (last instanceof RestType) {
-      ttypes.pop();
-      this._restType = last;
-      this._restType.setStart(ttypes.length);
+    this.labels = elements.map((t) => t instanceof TLabeled ? t.label : undefined);
+    this.ttypes = elements.map((t) => t instanceof TLabeled ? t.ttype : t);
+    this.restIndex = this.ttypes.findIndex((t) => t instanceof RestType);
+    if (this.restIndex < 0) {
+      this.restIndex = this.ttypes.length;
+    } else {
+      this.restType = this.ttypes[this.restIndex] as RestType;
+      this.restLabel = this.labels[this.restIndex];
+      this.ttypes.splice(this.restIndex, 1);
+      this.labels.splice(this.restIndex, 1);
+      if (this.ttypes.some((t) => t instanceof RestType)) {
+        throw new Error("Tuple may have only one rest element");
+      }
+      this.restType.setStart(this.restIndex, this.ttypes.length - this.restIndex);
     }
   }
 
-  public getChecker(suite: ITypeSuite, strict: boolean): CheckerFunc {
-    const itemCheckers = this.ttypes.map((t) => t.getChecker(suite, strict));
+  public getChecker(suite: ITypeSuite, strict: boolean, allowedProps?: Set<string>,
+                    options: ICheckOptions = {}): CheckerFunc {
+    const itemCheckers = this.ttypes.map((t) => t.getChecker(suite, strict, undefined, options));
     const checker = (value: any, ctx: IContext) => {
       if (!Array.isArray(value)) { return ctx.fail(null, "is not an array", 0); }
+      const suffixStart = this._getSuffixStart(value.length);
       for (let i = 0; i < itemCheckers.length; i++) {
-        const ok = itemCheckers[i](value[i], ctx);
-        if (!ok) { return ctx.fail(i, null, 1); }
+        const index = i < this.restIndex ? i : suffixStart + i - this.restIndex;
+        const ok = itemCheckers[i](value[index], ctx);
+        if (!ok) { return ctx.fail(this._getPathElement(i, index), null, 1); }
       }
       return true;
     };
 
-    if (this._restType) {
-      const restChecker = this._restType.getChecker(suite, strict);
+    if (this.restType) {
+      const restChecker = this.restType.getChecker(suite, strict, undefined, options);
       return (value: any, ctx: IContext) => {
         return checker(value, ctx) && restChecker(value, ctx);
       }
@@ -203,6 +751,35 @@ export class TTuple extends TType {
         ctx.fail(itemCheckers.length, "is extraneous", 2);
     };
   }
+
+  public getConverter(suite: ITypeSuite, strict: boolean, allowedProps?: Set<string>,
+                      options: IConvertOptions = {}): ConverterFunc {
+    const itemConverters = this.ttypes.map((t) => t.getConverter(suite, strict, undefined, options));
+    const restConverter = this.restType?.getConverter(suite, strict, undefined, options);
+    return (value: any) => {
+      if (!Array.isArray(value)) { return value; }
+      // Without a rest type, any elements past the declared ones are extraneous.
+      const result = value.slice(0, (options.strip && !restConverter) ? itemConverters.length : undefined);
+      const suffixStart = this._getSuffixStart(result.length);
+      for (let i = 0; i < itemConverters.length; i++) {
+        const index = i < this.restIndex ? i : suffixStart + i - this.restIndex;
+        // Missing elements are only added if they get a default value.
+        const item = itemConverters[i](result[index]);
+        if (index < result.length || item !== undefined) { result[index] = item; }
+      }
+      return restConverter ? restConverter(result) : result;
+    };
+  }
+
+  // Returns the index in an array of the given length of the first element after the rest element.
+  private _getSuffixStart(length: number): number {
+    return Math.max(this.restIndex, length - (this.ttypes.length - this.restIndex));
+  }
+
+  private _getPathElement(i: number, index: number): PathElement {
+    const label = this.labels[i];
+    return label === undefined ? index : new LabeledIndex(index, label);
+  }
 }
 
 /**
@@ -228,42 +805,448 @@ export class TUnion extends TType {
     }
   }
 
-  public getChecker(suite: ITypeSuite, strict: boolean, allowedProps?: Set<string>): CheckerFunc {
-    const itemCheckers = this.ttypes.map((t) => t.getChecker(suite, strict, allowedProps));
+  public getChecker(suite: ITypeSuite, strict: boolean, allowedProps?: Set<string>,
+                    options: ICheckOptions = {}): CheckerFunc {
+    const matcher = this.getMatcher(suite, strict, allowedProps, options);
+    return (value: any, ctx: IContext) => matcher(value, ctx) >= 0;
+  }
+
+  /**
+   * Returns a function which returns the index of the member type that a value satisfies, or -1
+   * (having reported the errors to ctx) if it satisfies none.
+   */
+  public getMatcher(suite: ITypeSuite, strict: boolean, allowedProps?: Set<string>,
+                    options: ICheckOptions = {}): MatcherFunc {
+    const itemCheckers = this.ttypes.map((t) => t.getChecker(suite, strict, allowedProps, options));
+    const matchMembers = (value: any, ctx: IContext, indices?: number[]): number => {
+      // A single candidate is checked directly, so that its errors are the ones reported.
+      if (indices && indices.length === 1) {
+        if (itemCheckers[indices[0]](value, ctx)) { return indices[0]; }
+        ctx.fail(null, this._failMsg, 0);
+        return -1;
+      }
+      const ur = ctx.unionResolver();
+      for (let i = 0; i < itemCheckers.length; i++) {
+        if (indices && indices.indexOf(i) < 0) { continue; }
+        const ok = itemCheckers[i](value, ur.createContext());
+        if (ok) { return i; }
+      }
+      ctx.resolveUnion(ur);
+      ctx.fail(null, this._failMsg, 0);
+      return -1;
+    };
+
+    // For a discriminated union, only check the members that match the discriminant's value.
+    const discriminant = this._getDiscriminant(suite);
+    if (!discriminant) { return matchMembers; }
+    const {prop, members, failMsg} = discriminant;
+    return (value: any, ctx: IContext) => {
+      if (typeof value !== "object" || value === null || value[prop] === undefined) {
+        return matchMembers(value, ctx);
+      }
+      const indices = members.get(value[prop]);
+      if (!indices) {
+        ctx.fail(prop, failMsg, 0);
+        ctx.fail(null, this._failMsg, 0);
+        return -1;
+      }
+      return matchMembers(value, ctx, indices);
+    };
+  }
+
+  // Uses the conversion for the first member type which the converted value satisfies.
+  public getConverter(suite: ITypeSuite, strict: boolean, allowedProps?: Set<string>,
+                      options: IConvertOptions = {}): ConverterFunc {
+    const itemCheckers = this.ttypes.map((t) => t.getChecker(suite, strict, allowedProps, options));
+    const itemConverters = this.ttypes.map((t) => t.getConverter(suite, strict, allowedProps, options));
+    const testCtx = new NoopContext();
+    return (value: any) => {
+      for (let i = 0; i < itemConverters.length; i++) {
+        const result = itemConverters[i](value);
+        if (itemCheckers[i](result, testCtx.createContext())) { return result; }
+      }
+      return value;
+    };
+  }
+
+  /**
+   * If all members are interfaces with a required property of literal types, returns the first
+   * such property, with a map from its values to the indices of the members that allow them.
+   */
+  private _getDiscriminant(suite: ITypeSuite): IDiscriminant|undefined {
+    let ifaces: TIface[];
+    try {
+      ifaces = this.ttypes.map((t) => getFlatIface(t, suite));
+    } catch (e) {
+      return undefined;
+    }
+    if (ifaces.length < 2) { return undefined; }
+    for (const {name: prop} of ifaces[0].props) {
+      const members = new Map<any, number[]>();
+      const isDiscriminant = ifaces.every((iface, i) => {
+        const p = iface.props.find((p) => p.name === prop);
+        const values = p && !p.isOpt ? getLiteralValues(p.ttype, suite) : undefined;
+        if (!values) { return false; }
+        for (const v of values) { members.set(v, [...(members.get(v) || []), i]); }
+        return true;
+      });
+      if (isDiscriminant) {
+        const names = Array.from(members.keys(), (v) => JSON.stringify(v));
+        return {prop, members, failMsg: `is not one of ${names.join(", ")}`};
+      }
+    }
+    return undefined;
+  }
+}
+
+interface IDiscriminant {
+  prop: string;
+  members: Map<any, number[]>;
+  failMsg: string;
+}
+
+// Returns the values of a type made up of literals, or undefined if it's not such a type.
+function getLiteralValues(ttype: TType, suite: ITypeSuite): any[]|undefined {
+  if (ttype instanceof TTypeArg) {
+    return getLiteralValues(ttype.ttype, ttype.suite);
+  } else if (ttype instanceof TName && !ttype.typeArgs) {
+    const named = getNamedType(suite, ttype.name);
+    return named instanceof BasicType ? undefined : getLiteralValues(named, suite);
+  } else if (ttype instanceof TLiteral) {
+    return [ttype.value];
+  } else if (ttype instanceof TEnumLiteral) {
+    return [ttype._getValue(suite)];
+  } else if (ttype instanceof TEnumType) {
+    return Array.from(ttype.validValues);
+  } else if (ttype instanceof TUnion) {
+    const values = ttype.ttypes.map((t) => getLiteralValues(t, suite));
+    return values.every((v) => v !== undefined) ? ([] as any[]).concat(...values) : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Defines an intersection type, e.g. intersection('number', 'null').
+ */
+export function intersection(...typeSpec: TypeSpec[]): TIntersection {
+  return new TIntersection(typeSpec.map((t) => parseSpec(t)));
+}
+export class TIntersection extends TType {
+  constructor(public ttypes: TType[]) {
+    super();
+  }
+
+  public getChecker(suite: ITypeSuite, strict: boolean, allowedProps: Set<string> = new Set(),
+                    options: ICheckOptions = {}): CheckerFunc {
+    const itemCheckers = this.ttypes.map((t) => t.getChecker(suite, strict, allowedProps, options));
+    return (value: any, ctx: IContext) => {
+      return itemCheckers.every(checker => {
+        checker(value, ctx.fork());
+        return ctx.completeFork();
+      }) && !ctx.failed();
+    };
+  }
+
+  public getConverter(suite: ITypeSuite, strict: boolean, allowedProps: Set<string> = new Set(),
+                      options: IConvertOptions = {}): ConverterFunc {
+    const itemConverters = this.ttypes.map((t) => t.getConverter(suite, strict, allowedProps, options));
+    if (options.strip) {
+      // Each member returns only what it declares, so we combine the results.
+      return (value: any) => itemConverters.map((converter) => converter(value)).reduce(mergeStripped);
+    }
+    return (value: any) => itemConverters.reduce((v, converter) => converter(v), value);
+  }
+}
+
+/**
+ * Combines two stripped versions of the same value, as produced for members of an intersection.
+ * Objects get the properties of both. Arrays only keep elements present in both, since members
+ * that don't allow extra elements would consider the rest extraneous.
+ */
+function mergeStripped(a: any, b: any): any {
+  if (a === b) { return b; }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    const size = Math.min(a.length, b.length);
+    const result = new Array(size);
+    for (let i = 0; i < size; i++) {
+      result[i] = mergeStripped(a[i], b[i]);
+    }
+    return result;
+  }
+  if (typeof a === "object" && a !== null && typeof b === "object" && b !== null &&
+      !Array.isArray(a) && !Array.isArray(b)) {
+    const result = Object.assign({}, a);
+    for (const prop of Object.keys(b)) {
+      result[prop] = a.hasOwnProperty(prop) ? mergeStripped(a[prop], b[prop]) : b[prop];
+    }
+    return result;
+  }
+  return b;
+}
+
+/**
+ * Defines a refinement of a type, which a value satisfies if it satisfies the type, and the given
+ * predicate returns true for it, e.g. refine(array('number'), (v) => v.length > 0, 'is empty').
+ * The message is reported when the predicate fails.
+ */
+export function refine(typeSpec: TypeSpec, predicate: (value: any) => boolean, message: string): TRefine {
+  return new TRefine(parseSpec(typeSpec), predicate, message);
+}
+export class TRefine extends TType {
+  constructor(public ttype: TType, public predicate: (value: any) => boolean, public message: string) {
+    super();
+  }
+
+  public getChecker(suite: ITypeSuite, strict: boolean, allowedProps?: Set<string>,
+                    options: ICheckOptions = {}): CheckerFunc {
+    const checker = this.ttype.getChecker(suite, strict, allowedProps, options);
+    // A failed predicate is a better match than a failure of the underlying type, which matters
+    // for picking the union member to report.
+    return (value: any, ctx: IContext) =>
+      checker(value, ctx) && (this.predicate(value) ? true : ctx.fail(null, this.message, 1));
+  }
+
+  public getConverter(suite: ITypeSuite, strict: boolean, allowedProps?: Set<string>,
+                      options: IConvertOptions = {}): ConverterFunc {
+    return this.ttype.getConverter(suite, strict, allowedProps, options);
+  }
+}
+
+/**
+ * Defines a template literal type. The arguments alternate between literal text and the types of
+ * placeholders, starting with text, e.g. `user_${number}` is template('user_', 'number'), and
+ * `${"GET"|"POST"} /${string}` is template('', union(lit('GET'), lit('POST')), ' /', 'string').
+ * Placeholders may be string, number, bigint, boolean, null, undefined, literals, unions, enums,
+ * other template literals, or names of those.
+ */
+export function template(...parts: TypeSpec[]): TTemplateLiteral {
+  const texts: string[] = [];
+  const ttypes: TType[] = [];
+  parts.forEach((part, i) => {
+    if (i % 2 === 1) {
+      ttypes.push(parseSpec(part));
+    } else if (typeof part === "string") {
+      texts.push(part);
+    } else {
+      throw new Error("Template literal text must be a string");
+    }
+  });
+  if (texts.length === ttypes.length) { texts.push(""); }
+  return new TTemplateLiteral(texts, ttypes);
+}
+export class TTemplateLiteral extends TType {
+  public name: string;
+  private _failMsg: string;
+
+  // There is always one more text than placeholder types, texts[i] preceding ttypes[i].
+  constructor(public texts: string[], public ttypes: TType[]) {
+    super();
+    this.name = '"' + texts.map((text, i) =>
+      (i === 0 ? "" : "${" + getPlaceholderName(ttypes[i - 1]) + "}") + text).join("") + '"';
+    this._failMsg = `is not a ${this.name}`;
+  }
+
+  public getChecker(suite: ITypeSuite, strict: boolean): CheckerFunc {
+    const matcher = this._getMatcher(suite);
+    return (value: any, ctx: IContext) =>
+      (typeof value === "string" && matcher(value)) ? true : ctx.fail(null, this._failMsg, 0);
+  }
+
+  /**
+   * Returns a function to check whether a string matches this template.
+   */
+  public _getMatcher(suite: ITypeSuite): (value: string) => boolean {
+    const texts = this.texts;
+    const placeholders = this.ttypes.map((t) => getPlaceholderMatcher(t, suite));
+    // Matches the placeholder at index i, starting at pos in value, followed by the rest of the
+    // template, trying all possible lengths of the placeholder.
+    const matchFrom = (value: string, pos: number, i: number): boolean => {
+      if (i === placeholders.length) { return pos === value.length; }
+      const next = texts[i + 1];
+      for (let end = value.indexOf(next, pos); end !== -1; end = value.indexOf(next, end + 1)) {
+        if (placeholders[i](value.slice(pos, end)) && matchFrom(value, end + next.length, i + 1)) {
+          return true;
+        }
+        if (end >= value.length) { break; }
+      }
+      return false;
+    };
+    return (value: string) => value.startsWith(texts[0]) && matchFrom(value, texts[0].length, 0);
+  }
+}
+
+function getPlaceholderName(ttype: TType): string {
+  if (ttype instanceof TUnion) { return ttype.ttypes.map(getPlaceholderName).join(" | "); }
+  if (ttype instanceof TEnumLiteral) { return `${ttype.enumName}.${ttype.prop}`; }
+  // Show a nested template literal as TypeScript would, i.e. with a backtick-quoted name.
+  if (ttype instanceof TTemplateLiteral) { return "`" + ttype.name.slice(1, -1) + "`"; }
+  const name = getTypeName(ttype);
+  return name === undefined ? "..." : name;
+}
+
+/**
+ * Returns a function to check whether a string matches a template literal placeholder of the
+ * given type.
+ */
+function getPlaceholderMatcher(ttype: TType, suite: ITypeSuite): (value: string) => boolean {
+  if (ttype instanceof TName) {
+    const named = getNamedType(suite, ttype.name);
+    if (named instanceof TTypeArg) { return getPlaceholderMatcher(named.ttype, named.suite); }
+    for (const basicName of Object.keys(placeholderMatchers)) {
+      if (named === basicTypes[basicName]) { return placeholderMatchers[basicName]; }
+    }
+    return getPlaceholderMatcher(named, suite);
+  } else if (ttype instanceof TLiteral) {
+    return (value: string) => value === String(ttype.value);
+  } else if (ttype instanceof TEnumType) {
+    const values = new Set(Array.from(ttype.validValues).map(String));
+    return (value: string) => values.has(value);
+  } else if (ttype instanceof TEnumLiteral) {
+    const enumValue = String(ttype._getValue(suite));
+    return (value: string) => value === enumValue;
+  } else if (ttype instanceof TUnion) {
+    const matchers = ttype.ttypes.map((t) => getPlaceholderMatcher(t, suite));
+    return (value: string) => matchers.some((m) => m(value));
+  } else if (ttype instanceof TTemplateLiteral) {
+    return ttype._getMatcher(suite);
+  }
+  throw new Error("Unsupported type in template literal");
+}
+
+// Matchers for basic types used as template literal placeholders, which accept the strings that
+// TypeScript accepts for them.
+const placeholderMatchers: {[name: string]: (value: string) => boolean} = {
+  string:     (v) => true,
+  any:        (v) => true,
+  number:     (v) => v.trim() === v && v !== "" && isFinite(Number(v)),
+  bigint:     (v) => /^-?\d+$/.test(v),
+  boolean:    (v) => v === "true" || v === "false",
+  null:       (v) => v === "null",
+  undefined:  (v) => v === "undefined",
+};
+
+/**
+ * Defines an integer, i.e. a number with no fractional part.
+ */
+export function integer(): TInteger { return new TInteger(); }
+export class TInteger extends TType {
+  public name = "integer";
+
+  public getChecker(suite: ITypeSuite, strict: boolean): CheckerFunc {
+    return (value: any, ctx: IContext) =>
+      (typeof value === "number" && isFinite(value) && Math.floor(value) === value) ? true :
+      ctx.fail(null, "is not an integer", 0);
+  }
+
+  public getConverter(suite: ITypeSuite, strict: boolean, allowedProps?: Set<string>,
+                      options: IConvertOptions = {}): ConverterFunc {
+    return basicTypes.number.getConverter(suite, strict, undefined, options);
+  }
+}
+
+// The constraints below only apply to values of the relevant type, and accept all other values.
+// That's how they compose with other types, e.g. intersection('number', range(0, 100)) is a
+// number from 0 to 100, and intersection(array('string'), length(1)) is a non-empty array.
+
+/**
+ * Defines a constraint on numbers, e.g. range(0, 100). Either bound may be omitted (using
+ * undefined or null), and both bounds are inclusive.
+ */
+export function range(min?: number|null, max?: number|null): TRange {
+  return new TRange(min == null ? undefined : min, max == null ? undefined : max);
+}
+export class TRange extends TType {
+  constructor(public min?: number, public max?: number) { super(); }
+
+  public getChecker(suite: ITypeSuite, strict: boolean): CheckerFunc {
+    const {min, max} = this;
+    return (value: any, ctx: IContext) => {
+      if (typeof value !== "number") { return true; }
+      if (min !== undefined && value < min) { return ctx.fail(null, `is less than ${min}`, 1); }
+      if (max !== undefined && value > max) { return ctx.fail(null, `is greater than ${max}`, 1); }
+      return true;
+    };
+  }
+}
+
+/**
+ * Defines a constraint on the length of strings and arrays, e.g. length(1, 10). Either bound may
+ * be omitted (using undefined or null), and both bounds are inclusive.
+ */
+export function length(min?: number|null, max?: number|null): TLength {
+  return new TLength(min == null ? undefined : min, max == null ? undefined : max);
+}
+export class TLength extends TType {
+  constructor(public min?: number, public max?: number) { super(); }
+
+  public getChecker(suite: ITypeSuite, strict: boolean): CheckerFunc {
+    const {min, max} = this;
     return (value: any, ctx: IContext) => {
-      const ur = ctx.unionResolver();
-      for (let i = 0; i < itemCheckers.length; i++) {
-        const ok = itemCheckers[i](value, ur.createContext());
-        if (ok) { return true; }
-      }
-      ctx.resolveUnion(ur);
-      return ctx.fail(null, this._failMsg, 0);
+      if (typeof value !== "string" && !Array.isArray(value)) { return true; }
+      if (min !== undefined && value.length < min) { return ctx.fail(null, `has length less than ${min}`, 1); }
+      if (max !== undefined && value.length > max) { return ctx.fail(null, `has length greater than ${max}`, 1); }
+      return true;
     };
   }
 }
 
 /**
- * Defines an intersection type, e.g. intersection('number', 'null').
+ * Defines a constraint on strings to match a regular expression, e.g. pattern(/^[a-z]+$/), or
+ * pattern('^[a-z]+$').
  */
-export function intersection(...typeSpec: TypeSpec[]): TIntersection {
-  return new TIntersection(typeSpec.map((t) => parseSpec(t)));
+export function pattern(regexp: RegExp|string): TPattern {
+  return new TPattern(typeof regexp === "string" ? new RegExp(regexp) : regexp);
 }
-export class TIntersection extends TType {
-  constructor(public ttypes: TType[]) {
+export class TPattern extends TType {
+  private _failMsg: string;
+  constructor(public regexp: RegExp) {
     super();
+    this._failMsg = `does not match ${regexp}`;
   }
 
-  public getChecker(suite: ITypeSuite, strict: boolean, allowedProps: Set<string> = new Set()): CheckerFunc {
-    const itemCheckers = this.ttypes.map((t) => t.getChecker(suite, strict, allowedProps));
+  public getChecker(suite: ITypeSuite, strict: boolean): CheckerFunc {
+    const regexp = this.regexp;
     return (value: any, ctx: IContext) => {
-      return itemCheckers.every(checker => {
-        checker(value, ctx.fork());
-        return ctx.completeFork();
-      }) && !ctx.failed();
+      if (typeof value !== "string") { return true; }
+      // Reset lastIndex in case regexp has the global or sticky flag.
+      regexp.lastIndex = 0;
+      return regexp.test(value) ? true : ctx.fail(null, this._failMsg, 1);
     };
   }
 }
 
+/**
+ * Defines a constraint on strings to have a known format, e.g. format('email'). Supported formats
+ * are the keys of `formats`, to which more may be added.
+ */
+export function format(name: string): TFormat { return new TFormat(name); }
+export class TFormat extends TType {
+  private _failMsg: string;
+  constructor(public format: string) {
+    super();
+    this._failMsg = `is not a valid ${format}`;
+  }
+
+  public getChecker(suite: ITypeSuite, strict: boolean): CheckerFunc {
+    if (!formats.hasOwnProperty(this.format)) { throw new Error(`Unknown format ${this.format}`); }
+    const validator = formats[this.format];
+    return (value: any, ctx: IContext) =>
+      (typeof value !== "string" || validator(value)) ? true : ctx.fail(null, this._failMsg, 1);
+  }
+}
+
+const dateTimeRegExp = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/i;
+
+/**
+ * Validators for the string formats supported by format().
+ */
+export const formats: {[name: string]: (value: string) => boolean} = {
+  "email":      (v) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(v),
+  "uuid":       (v) => /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(v),
+  "date-time":  (v) => dateTimeRegExp.test(v) && !isNaN(Date.parse(v)),
+  "uri":        (v) => /^[a-z][a-z0-9+.-]*:[^\s]*$/i.test(v),
+};
+
 /**
  * Defines an enum type, e.g. enum({'A': 1, 'B': 2}).
  */
@@ -282,6 +1265,11 @@ export class TEnumType extends TType {
     return (value: any, ctx: IContext) =>
       (this.validValues.has(value) ? true : ctx.fail(null, this._failMsg, 0));
   }
+
+  public getConverter(suite: ITypeSuite, strict: boolean, allowedProps?: Set<string>,
+                      options: IConvertOptions = {}): ConverterFunc {
+    return options.coerce ? getLiteralCoercer(Array.from(this.validValues)) : identity;
+  }
 }
 
 /**
@@ -297,6 +1285,16 @@ export class TEnumLiteral extends TType {
     this._failMsg = `is not ${enumName}.${prop}`;
   }
   public getChecker(suite: ITypeSuite, strict: boolean): CheckerFunc {
+    const val = this._getValue(suite);
+    return (value: any, ctx: IContext) => (value === val) ? true : ctx.fail(null, this._failMsg, -1);
+  }
+
+  public getConverter(suite: ITypeSuite, strict: boolean, allowedProps?: Set<string>,
+                      options: IConvertOptions = {}): ConverterFunc {
+    return options.coerce ? getLiteralCoercer([this._getValue(suite)]) : identity;
+  }
+
+  public _getValue(suite: ITypeSuite): string|number {
     const ttype = getNamedType(suite, this.enumName);
     if (!(ttype instanceof TEnumType)) {
       throw new Error(`Type ${this.enumName} used in enumlit is not an enum type`);
@@ -305,7 +1303,7 @@ export class TEnumLiteral extends TType {
     if (!ttype.members.hasOwnProperty(this.prop)) {
       throw new Error(`Unknown value ${this.enumName}.${this.prop} used in enumlit`);
     }
-    return (value: any, ctx: IContext) => (value === val) ? true : ctx.fail(null, this._failMsg, -1);
+    return val;
   }
 }
 
@@ -317,47 +1315,72 @@ function makeIfaceProps(props: {[name: string]: TOptional|TypeSpec}): TProp[] {
 
 function makeIfaceProp(name: string, prop: TOptional|TypeSpec): TProp {
   return prop instanceof TOptional ?
-    new TProp(name, prop.ttype, true) :
+    new TProp(name, prop.ttype, true, prop.options) :
     new TProp(name, parseSpec(prop), false);
 }
 
 /**
- * indexKey is a special key that indicates an index signature when used as a key in an interface.
- * E.g. {[key: string]: number} becomes t.iface([], {[t.indexKey]: "number"}).
+ * indexKey is a special key that indicates a string index signature when used as a key in an
+ * interface. E.g. {[key: string]: number} becomes t.iface([], {[t.indexKey]: "number"}).
  *
- * We don't distinguish between string- and number-type index signatures, and don't support
- * multiple index signatures.
+ * Index signatures with other key types, or several of them, are given to iface() separately,
+ * e.g. {[id: number]: Row} becomes t.iface([], {}, [t.index("number", "Row")]).
  */
 export const indexKey: unique symbol = Symbol();
 
 /**
- * Defines an interface. The first argument is an array of interfaces that it extends, and the
- * second is an array of properties.
+ * Defines an index signature, with the type of its keys and of its values. The key type may be
+ * string, number, or a template literal type like template("data-", "string").
  */
-export function iface(bases: string[], props: {[name: string]: TOptional|TypeSpec}): TIface {
-  return new TIface(bases, makeIfaceProps(props), props[indexKey as any]);
+export function index(keySpec: TypeSpec, valueSpec: TOptional|TypeSpec): TIndexSignature {
+  return new TIndexSignature(parseSpec(keySpec), parseSpec(valueSpec));
+}
+export class TIndexSignature {
+  constructor(public keyType: TType, public valueType: TType) {}
+}
+
+/**
+ * Defines an interface. The first argument is an array of interfaces that it extends, the second
+ * is an array of properties, and the optional third one is an array of index signatures.
+ */
+export function iface(bases: string[], props: {[name: string]: TOptional|TypeSpec},
+                      indexSignatures: TIndexSignature[] = []): TIface {
+  return new TIface(bases, makeIfaceProps(props), props[indexKey as any], indexSignatures);
 }
 export class TIface extends TType {
-  public indexType?: TType;
+  // All index signatures, starting with the string one given as indexType, if any.
+  public indexSignatures: TIndexSignature[];
   private propSet: Set<string>;
 
-  constructor(public bases: string[], public props: TProp[], indexType?: TOptional|TypeSpec) {
+  constructor(public bases: string[], public props: TProp[], indexType?: TOptional|TypeSpec,
+              indexSignatures: TIndexSignature[] = []) {
     super();
-    this.indexType = indexType ? parseSpec(indexType) : undefined;
+    this.indexSignatures = indexType ? [index("string", indexType), ...indexSignatures] : indexSignatures;
     this.propSet = new Set(props.map((p) => p.name));
   }
 
-  public getChecker(suite: ITypeSuite, strict: boolean, allowedProps: Set<string> = new Set()): CheckerFunc {
+  /**
+   * The value type of the string index signature, e.g. "number" for {[key: string]: number}.
+   */
+  public get indexType(): TType|undefined {
+    const sig = this.indexSignatures.find((s) => s.keyType instanceof TName && s.keyType.name === "string");
+    return sig && sig.valueType;
+  }
+
+  public getChecker(suite: ITypeSuite, strict: boolean, allowedProps: Set<string> = new Set(),
+                    options: ICheckOptions = {}): CheckerFunc {
     this.propSet.forEach((prop) => allowedProps.add(prop));
 
-    const baseCheckers = this.bases.map((b) => getNamedType(suite, b).getChecker(suite, strict, allowedProps));
-    const propCheckers = this.props.map((prop) => prop.ttype.getChecker(suite, strict));
-    const indexTypeChecker = this.indexType?.getChecker(suite, strict);
-    const testCtx = new NoopContext();
+    const baseCheckers = this.bases.map((b) => getNamedType(suite, b).getChecker(suite, strict, allowedProps, options));
+    const propCheckers = this.props.map((prop) => prop.ttype.getChecker(suite, strict, undefined, options));
+    const keyMatchers = this.indexSignatures.map((sig) => getIndexKeyMatcher(sig.keyType, suite));
+    const indexCheckers = this.indexSignatures.map((sig) =>
+      sig.valueType.getChecker(suite, strict, undefined, options));
+    addAllowedKeyMatchers(allowedProps, keyMatchers);
 
     // Consider a prop required if it's not optional AND does not allow for undefined as a value.
     const isPropRequired: boolean[] = this.props.map((prop, i) =>
-      !prop.isOpt && !propCheckers[i](undefined, testCtx));
+      !prop.isOpt && !propCheckers[i](undefined, new NoopContext()));
 
     return (value: any, ctx: IContext) => {
       if (typeof value !== "object" || value === null) { return ctx.fail(null, "is not an object", 0); }
@@ -386,20 +1409,34 @@ export class TIface extends TType {
           }
         }
       }
-      if (indexTypeChecker) {
+      if (indexCheckers.length) {
+        // Each property is checked against all index signatures whose key type it matches. Those
+        // that match none must be declared properties, or match an index signature of a base or
+        // intersected interface.
         for (const prop in value) {
-          const fork = ctx.fork();
-          if (!indexTypeChecker(value[prop], fork)) {
-            fork.fail(prop, null, 1);
+          let matched = false;
+          for (let i = 0; i < indexCheckers.length; i++) {
+            if (!keyMatchers[i](prop)) { continue; }
+            matched = true;
+            const fork = ctx.fork();
+            if (!indexCheckers[i](value[prop], fork)) {
+              fork.fail(prop, null, 1);
+            }
+            if (!ctx.completeFork()) {
+              return false;
+            }
           }
-          if (!ctx.completeFork()) {
-            return false;
+          if (!matched && !isAllowedProp(allowedProps, prop)) {
+            ctx.fork().fail(prop, "is not a valid key", 2);
+            if (!ctx.completeFork()) {
+              return false;
+            }
           }
         }
       } else if (strict) {
         // In strict mode, check also for unknown enumerable properties.
         for (const prop in value) {
-          if (!allowedProps.has(prop)) {
+          if (!isAllowedProp(allowedProps, prop)) {
             ctx.fork().fail(prop, "is extraneous", 2);
             if (!ctx.completeFork()) {
               return false;
@@ -410,30 +1447,478 @@ export class TIface extends TType {
       return !ctx.failed();
     };
   }
+
+  public getConverter(suite: ITypeSuite, strict: boolean, allowedProps: Set<string> = new Set(),
+                      options: IConvertOptions = {}): ConverterFunc {
+    this.propSet.forEach((prop) => allowedProps.add(prop));
+
+    const baseConverters = this.bases.map((b) =>
+      getNamedType(suite, b).getConverter(suite, strict, allowedProps, options));
+    const propConverters = this.props.map((prop) => prop.ttype.getConverter(suite, strict, undefined, options));
+    const keyMatchers = this.indexSignatures.map((sig) => getIndexKeyMatcher(sig.keyType, suite));
+    const indexConverters = this.indexSignatures.map((sig) =>
+      sig.valueType.getConverter(suite, strict, undefined, options));
+    const propDefaults: boolean[] = this.props.map((prop) => Boolean(options.defaults) && hasDefault(prop.options));
+
+    return (value: any) => {
+      if (typeof value !== "object" || value === null) { return value; }
+      // Convert using index signatures first, so that conversions of declared properties
+      // (including inherited ones) take precedence. When stripping, index signatures keep the
+      // properties whose keys they match, as they do in strict checks.
+      let result = options.strip ? {} : Object.assign({}, value);
+      for (const prop in value) {
+        if (this.propSet.has(prop)) { continue; }
+        // A property that matches several index signatures is converted by each in turn.
+        for (let i = 0; i < indexConverters.length; i++) {
+          if (keyMatchers[i](prop)) {
+            result[prop] = indexConverters[i](prop in result ? result[prop] : value[prop]);
+          }
+        }
+      }
+      for (const converter of baseConverters) {
+        // When stripping, each base returns only its own properties, so we combine them.
+        result = options.strip ? Object.assign(result, converter(value)) : converter(result);
+      }
+      const source = options.strip ? value : result;
+      for (let i = 0; i < propConverters.length; i++) {
+        const name = this.props[i].name;
+        if (source[name] !== undefined) {
+          result[name] = propConverters[i](source[name]);
+        } else if (propDefaults[i]) {
+          result[name] = propConverters[i](cloneDefault(this.props[i].options.default));
+        }
+      }
+      return result;
+    };
+  }
+}
+
+// Key matchers of the index signatures of interfaces that share a set of allowed properties (as
+// bases or members of an intersection). Keys they match are allowed too.
+const allowedKeyMatchers: WeakMap<Set<string>, Array<(key: string) => boolean>> = new WeakMap();
+
+function addAllowedKeyMatchers(allowedProps: Set<string>, keyMatchers: Array<(key: string) => boolean>) {
+  if (keyMatchers.length) {
+    allowedKeyMatchers.set(allowedProps, [...(allowedKeyMatchers.get(allowedProps) || []), ...keyMatchers]);
+  }
+}
+
+function isAllowedProp(allowedProps: Set<string>, prop: string): boolean {
+  const keyMatchers = allowedKeyMatchers.get(allowedProps);
+  return allowedProps.has(prop) || Boolean(keyMatchers && keyMatchers.some((m) => m(prop)));
+}
+
+/**
+ * Returns a function to check whether a property name matches the key type of an index
+ * signature. Number keys match names of numbers, e.g. "17" or "-1.5", but not "1e3" or "017".
+ */
+function getIndexKeyMatcher(keyType: TType, suite: ITypeSuite): (key: string) => boolean {
+  if (keyType instanceof TTypeArg) {
+    return getIndexKeyMatcher(keyType.ttype, keyType.suite);
+  } else if (keyType instanceof TName && !keyType.typeArgs) {
+    const named = getNamedType(suite, keyType.name);
+    if (named === basicTypes.number) { return (key: string) => String(Number(key)) === key; }
+    if (!(named instanceof BasicType)) { return getIndexKeyMatcher(named, suite); }
+  } else if (keyType instanceof TUnion) {
+    const matchers = keyType.ttypes.map((t) => getIndexKeyMatcher(t, suite));
+    return (key: string) => matchers.some((m) => m(key));
+  }
+  return getPlaceholderMatcher(keyType, suite);
+}
+
+// Returns the value type of the first index signature whose key type matches the given key.
+function getIndexSignatureType(indexSignatures: TIndexSignature[], key: string, suite: ITypeSuite): TType|undefined {
+  const sig = indexSignatures.find((s) => getIndexKeyMatcher(s.keyType, suite)(key));
+  return sig && sig.valueType;
+}
+
+/**
+ * Options for an optional property or tuple element.
+ */
+export interface IOptionalOptions {
+  // Value used in place of a missing one by Checker.applyDefaults(). Objects and arrays are copied.
+  default?: any;
+}
+
+function hasDefault(options: IOptionalOptions): boolean {
+  return options.hasOwnProperty("default");
+}
+
+// Copies plain objects and arrays used as default values, so that results don't share them.
+function cloneDefault(value: any): any {
+  if (Array.isArray(value)) { return value.map(cloneDefault); }
+  if (typeof value === "object" && value !== null && Object.getPrototypeOf(value) === Object.prototype) {
+    const result: any = {};
+    for (const key of Object.keys(value)) { result[key] = cloneDefault(value[key]); }
+    return result;
+  }
+  return value;
 }
 
 /**
- * Defines an optional property on an interface.
+ * Defines an optional property on an interface, e.g. opt('number'), or with a default value,
+ * opt('number', {default: 30}).
  */
-export function opt(typeSpec: TypeSpec): TOptional { return new TOptional(parseSpec(typeSpec)); }
+export function opt(typeSpec: TypeSpec, options?: IOptionalOptions): TOptional {
+  return new TOptional(parseSpec(typeSpec), options);
+}
 export class TOptional extends TType {
-  constructor(public ttype: TType) {
+  constructor(public ttype: TType, public options: IOptionalOptions = {}) {
     super();
   }
 
-  public getChecker(suite: ITypeSuite, strict: boolean): CheckerFunc {
-    const itemChecker = this.ttype.getChecker(suite, strict);
+  public getChecker(suite: ITypeSuite, strict: boolean, allowedProps?: Set<string>,
+                    options: ICheckOptions = {}): CheckerFunc {
+    const itemChecker = this.ttype.getChecker(suite, strict, undefined, options);
     return (value: any, ctx: IContext) => {
       return value === undefined || itemChecker(value, ctx);
     };
   }
+
+  public getConverter(suite: ITypeSuite, strict: boolean, allowedProps?: Set<string>,
+                      options: IConvertOptions = {}): ConverterFunc {
+    const itemConverter = this.ttype.getConverter(suite, strict, undefined, options);
+    if (options.defaults && hasDefault(this.options)) {
+      return (value: any) => itemConverter(value === undefined ? cloneDefault(this.options.default) : value);
+    }
+    return (value: any) => value === undefined ? value : itemConverter(value);
+  }
 }
 
 /**
  * Defines a property in an interface.
  */
 export class TProp {
-  constructor(public name: string, public ttype: TType, public isOpt: boolean) {}
+  constructor(public name: string, public ttype: TType, public isOpt: boolean,
+              public options: IOptionalOptions = {}) {}
+}
+
+/**
+ * Base class for utility types that map the properties of an interface, like Partial<T> or
+ * Pick<T, K>. The interface is resolved when the checker is built, and its properties include
+ * those inherited from its bases.
+ */
+export abstract class TMappedType extends TType {
+  constructor(public ttype: TType) { super(); }
+
+  public getChecker(suite: ITypeSuite, strict: boolean, allowedProps?: Set<string>,
+                    options: ICheckOptions = {}): CheckerFunc {
+    return this.getIface(suite).getChecker(suite, strict, allowedProps, options);
+  }
+
+  public getConverter(suite: ITypeSuite, strict: boolean, allowedProps?: Set<string>,
+                      options: IConvertOptions = {}): ConverterFunc {
+    return this.getIface(suite).getConverter(suite, strict, allowedProps, options);
+  }
+
+  /**
+   * Returns the interface produced by this utility type, without bases.
+   */
+  public getIface(suite: ITypeSuite): TIface {
+    const iface = getFlatIface(this.ttype, suite);
+    return new TIface([], this._mapProps(iface.props, iface.indexSignatures, suite), undefined,
+      this._mapIndexSignatures(iface.indexSignatures));
+  }
+
+  protected abstract _mapProps(props: TProp[], indexSignatures: TIndexSignature[], suite: ITypeSuite): TProp[];
+
+  protected _mapIndexSignatures(indexSignatures: TIndexSignature[]): TIndexSignature[] { return indexSignatures; }
+}
+
+/**
+ * Defines Partial<T> for an interface, in which all properties are optional.
+ */
+export function partial(typeSpec: TypeSpec): TPartial { return new TPartial(parseSpec(typeSpec)); }
+export class TPartial extends TMappedType {
+  protected _mapProps(props: TProp[]): TProp[] {
+    return props.map((p) => new TProp(p.name, p.ttype, true, p.options));
+  }
+}
+
+/**
+ * Defines Required<T> for an interface, in which all properties are required.
+ */
+export function required(typeSpec: TypeSpec): TRequired { return new TRequired(parseSpec(typeSpec)); }
+export class TRequired extends TMappedType {
+  protected _mapProps(props: TProp[]): TProp[] {
+    return props.map((p) => new TProp(p.name, p.ttype, false));
+  }
+}
+
+/**
+ * Defines Pick<T, K> for an interface, e.g. pick("Foo", "a", "b") for Pick<Foo, "a"|"b">.
+ */
+export function pick(typeSpec: TypeSpec, ...keys: string[]): TPick { return new TPick(parseSpec(typeSpec), keys); }
+export class TPick extends TMappedType {
+  constructor(ttype: TType, public keys: string[]) { super(ttype); }
+
+  protected _mapProps(props: TProp[], indexSignatures: TIndexSignature[], suite: ITypeSuite): TProp[] {
+    const propMap = new Map(props.map((p): [string, TProp] => [p.name, p]));
+    return this.keys.map((key) => {
+      const prop = propMap.get(key);
+      if (prop) { return prop; }
+      // As in TypeScript, a key covered by an index signature becomes a required property.
+      const indexType = getIndexSignatureType(indexSignatures, key, suite);
+      if (indexType) { return new TProp(key, indexType, false); }
+      throw new Error(`Type has no property ${key}`);
+    });
+  }
+
+  protected _mapIndexSignatures(): TIndexSignature[] { return []; }
+}
+
+/**
+ * Defines Omit<T, K> for an interface, e.g. omit("Foo", "a", "b") for Omit<Foo, "a"|"b">.
+ */
+export function omit(typeSpec: TypeSpec, ...keys: string[]): TOmit { return new TOmit(parseSpec(typeSpec), keys); }
+export class TOmit extends TMappedType {
+  constructor(ttype: TType, public keys: string[]) { super(ttype); }
+
+  protected _mapProps(props: TProp[]): TProp[] {
+    const keys = new Set(this.keys);
+    return props.filter((p) => !keys.has(p.name));
+  }
+}
+
+/**
+ * Defines Readonly<T>. It's checked the same way as T.
+ */
+export function readonly(typeSpec: TypeSpec): TReadonly { return new TReadonly(parseSpec(typeSpec)); }
+export class TReadonly extends TType {
+  constructor(public ttype: TType) { super(); }
+
+  public getChecker(suite: ITypeSuite, strict: boolean, allowedProps?: Set<string>,
+                    options: ICheckOptions = {}): CheckerFunc {
+    return this.ttype.getChecker(suite, strict, allowedProps, options);
+  }
+
+  public getConverter(suite: ITypeSuite, strict: boolean, allowedProps?: Set<string>,
+                      options: IConvertOptions = {}): ConverterFunc {
+    return this.ttype.getConverter(suite, strict, allowedProps, options);
+  }
+}
+
+/**
+ * Defines Record<K, V>, e.g. record(union(lit("a"), lit("b")), "number"). Literal and enum keys
+ * become required properties; string, number or template literal keys become index signatures.
+ */
+export function record(keySpec: TypeSpec, valueSpec: TypeSpec): TRecord {
+  return new TRecord(parseSpec(keySpec), parseSpec(valueSpec));
+}
+export class TRecord extends TType {
+  constructor(public keyType: TType, public valueType: TType) { super(); }
+
+  public getChecker(suite: ITypeSuite, strict: boolean, allowedProps?: Set<string>,
+                    options: ICheckOptions = {}): CheckerFunc {
+    return this.getIface(suite).getChecker(suite, strict, allowedProps, options);
+  }
+
+  public getConverter(suite: ITypeSuite, strict: boolean, allowedProps?: Set<string>,
+                      options: IConvertOptions = {}): ConverterFunc {
+    return this.getIface(suite).getConverter(suite, strict, allowedProps, options);
+  }
+
+  /**
+   * Returns the interface equivalent to this record type.
+   */
+  public getIface(suite: ITypeSuite): TIface {
+    const keys = new Set<string>();
+    const indexSignatures: TIndexSignature[] = [];
+    const addIndex = (ttype: TType, scope: ITypeSuite) => indexSignatures.push(
+      new TIndexSignature(scope === suite ? ttype : new TTypeArg(ttype, scope), this.valueType));
+    const addKeys = (ttype: TType, scope: ITypeSuite): void => {
+      if (ttype instanceof TName) {
+        const named = getNamedType(scope, ttype.name);
+        if (named instanceof TTypeArg) {
+          addKeys(named.ttype, named.suite);
+        } else if (named === basicTypes.string || named === basicTypes.number || named === basicTypes.any) {
+          addIndex(ttype, scope);
+        } else {
+          addKeys(named, scope);
+        }
+      } else if (ttype instanceof TLiteral) {
+        keys.add(String(ttype.value));
+      } else if (ttype instanceof TEnumType) {
+        ttype.validValues.forEach((v) => keys.add(String(v)));
+      } else if (ttype instanceof TEnumLiteral) {
+        keys.add(String(ttype._getValue(scope)));
+      } else if (ttype instanceof TUnion) {
+        ttype.ttypes.forEach((t) => addKeys(t, scope));
+      } else if (ttype instanceof TTemplateLiteral) {
+        addIndex(ttype, scope);
+      } else {
+        throw new Error("Unsupported key type in record");
+      }
+    };
+    addKeys(this.keyType, suite);
+    const props = Array.from(keys, (key) => new TProp(key, this.valueType, false));
+    return new TIface([], props, undefined, indexSignatures);
+  }
+}
+
+/**
+ * Resolves a type to an interface, and flattens it by including the properties of its bases. The
+ * types of properties that come from a different suite, as for instantiations of generic types,
+ * get bound to that suite.
+ */
+export function getFlatIface(ttype: TType, suite: ITypeSuite, scope: ITypeSuite = suite): TIface {
+  if (ttype instanceof TName) {
+    const named = getNamedType(scope, ttype.name);
+    if (named instanceof TTypeArg) { return getFlatIface(named.ttype, suite, named.suite); }
+    if (ttype.typeArgs) {
+      if (!(named instanceof TGeneric)) { throw new Error(`Type ${ttype.name} is not generic`); }
+      return getFlatIface(named.ttype, suite, named.getScope(ttype.typeArgs, scope));
+    }
+    return getFlatIface(named, suite, scope);
+  } else if (ttype instanceof TGenericInstance) {
+    return getFlatIface(ttype.generic.ttype, suite, ttype.generic.getScope(ttype.typeArgs, scope));
+  } else if (ttype instanceof TMappedType || ttype instanceof TRecord) {
+    return getFlatIface(ttype.getIface(scope), suite, scope);
+  } else if (ttype instanceof TReadonly) {
+    return getFlatIface(ttype.ttype, suite, scope);
+  } else if (ttype instanceof TIndexed) {
+    return getFlatIface(ttype.getPropType(scope), suite, scope);
+  } else if (ttype instanceof TTypeArg) {
+    return getFlatIface(ttype.ttype, suite, ttype.suite);
+  } else if (ttype instanceof TIface) {
+    const props = new Map<string, TProp>();
+    const indexSignatures: TIndexSignature[] = [];
+    for (const base of ttype.bases) {
+      const baseIface = getFlatIface(name(base), suite, scope);
+      baseIface.props.forEach((p) => props.set(p.name, p));
+      indexSignatures.push(...baseIface.indexSignatures);
+    }
+    const bind = (t: TType) => scope === suite ? t : new TTypeArg(t, scope);
+    for (const p of ttype.props) {
+      props.set(p.name, new TProp(p.name, bind(p.ttype), p.isOpt, p.options));
+    }
+    for (const sig of ttype.indexSignatures) {
+      indexSignatures.push(new TIndexSignature(bind(sig.keyType), bind(sig.valueType)));
+    }
+    return new TIface([], Array.from(props.values()), undefined, indexSignatures);
+  }
+  throw new Error("Type is not an interface");
+}
+
+/**
+ * Defines keyof T, e.g. keyof("Config"), for an interface (including inherited properties) or for
+ * an enum type, whose keys are the names of its members.
+ */
+export function keyof(typeSpec: TypeSpec): TKeyOf { return new TKeyOf(parseSpec(typeSpec)); }
+export class TKeyOf extends TType {
+  public name: string;
+  private _failMsg: string;
+
+  constructor(public ttype: TType) {
+    super();
+    const typeName = getTypeName(ttype);
+    this.name = `keyof ${typeName === undefined ? "..." : typeName}`;
+    this._failMsg = `is not a ${this.name}`;
+  }
+
+  public getChecker(suite: ITypeSuite, strict: boolean): CheckerFunc {
+    const {keys, keyMatchers} = this._getKeys(suite);
+    return (value: any, ctx: IContext) => {
+      // Property names that look like numbers are also keys when given as numbers.
+      const ok = (typeof value === "string" || typeof value === "number") &&
+        (keys.has(String(value)) || keyMatchers.some((m) => m(String(value))));
+      return ok ? true : ctx.fail(null, this._failMsg, 0);
+    };
+  }
+
+  private _getKeys(suite: ITypeSuite): {keys: Set<string>, keyMatchers: Array<(key: string) => boolean>} {
+    let ttype = this.ttype;
+    while (ttype instanceof TName && !ttype.typeArgs) {
+      const named = getNamedType(suite, ttype.name);
+      if (named instanceof TTypeArg) {
+        ttype = named.ttype;
+        suite = named.suite;
+      } else {
+        ttype = named;
+      }
+    }
+    if (ttype instanceof TEnumType) {
+      return {keys: new Set(Object.keys(ttype.members)), keyMatchers: []};
+    }
+    const iface = getFlatIface(ttype, suite);
+    return {
+      keys: new Set(iface.props.map((p) => p.name)),
+      keyMatchers: iface.indexSignatures.map((sig) => getIndexKeyMatcher(sig.keyType, suite)),
+    };
+  }
+}
+
+/**
+ * Defines an indexed access type T[K], e.g. indexed("Config", "timeouts") for Config["timeouts"].
+ * It's the type of the given property of an interface, which includes undefined if the property
+ * is optional.
+ */
+export function indexed(typeSpec: TypeSpec, key: string): TIndexed { return new TIndexed(parseSpec(typeSpec), key); }
+export class TIndexed extends TType {
+  constructor(public ttype: TType, public key: string) { super(); }
+
+  public getChecker(suite: ITypeSuite, strict: boolean, allowedProps?: Set<string>,
+                    options: ICheckOptions = {}): CheckerFunc {
+    return this.getPropType(suite).getChecker(suite, strict, allowedProps, options);
+  }
+
+  public getConverter(suite: ITypeSuite, strict: boolean, allowedProps?: Set<string>,
+                      options: IConvertOptions = {}): ConverterFunc {
+    return this.getPropType(suite).getConverter(suite, strict, allowedProps, options);
+  }
+
+  /**
+   * Returns the type of the property this type refers to.
+   */
+  public getPropType(suite: ITypeSuite): TType {
+    const iface = getFlatIface(this.ttype, suite);
+    const prop = iface.props.find((p) => p.name === this.key);
+    if (prop) { return prop.isOpt ? new TOptional(prop.ttype) : prop.ttype; }
+    const indexType = getIndexSignatureType(iface.indexSignatures, this.key, suite);
+    if (indexType) { return indexType; }
+    throw new Error(`Type has no property ${this.key}`);
+  }
+}
+
+/**
+ * Defines an instance of a class, e.g. instance("Decimal"), checked with instanceof. The class
+ * must be given when creating checkers, as in createCheckers(suite, {classes: {Decimal}}).
+ * Optionally, instances may also be checked against a type, such as the class's declared
+ * interface, e.g. instance("Decimal", "IDecimal").
+ */
+export function instance(className: string, typeSpec?: TypeSpec): TInstance {
+  return new TInstance(className, typeSpec === undefined ? undefined : parseSpec(typeSpec));
+}
+export class TInstance extends TType {
+  private _failMsg: string;
+
+  constructor(public className: string, public ttype?: TType) {
+    super();
+    this._failMsg = `is not an instance of ${className}`;
+  }
+
+  public getChecker(suite: ITypeSuite, strict: boolean, allowedProps?: Set<string>,
+                    options: ICheckOptions = {}): CheckerFunc {
+    const cls = getClass(options, this.className);
+    const typeChecker = this.ttype ? this.ttype.getChecker(suite, strict, undefined, options) : undefined;
+    return (value: any, ctx: IContext) => {
+      if (!(value instanceof cls)) { return ctx.fail(null, this._failMsg, 0); }
+      return typeChecker ? typeChecker(value, ctx) : true;
+    };
+  }
+}
+
+/**
+ * Classes for instance types, by name, given to checkers in ICheckOptions.
+ */
+export interface IClasses {
+  [name: string]: Function;
+}
+
+function getClass(options: ICheckOptions, className: string): Function {
+  const classes = options.classes;
+  if (!classes || !classes.hasOwnProperty(className)) { throw new Error(`Unknown class ${className}`); }
+  return classes[className];
 }
 
 /**
@@ -446,13 +1931,58 @@ export function func(resultSpec: TypeSpec, ...params: TParam[]): TFunc {
 export class TFunc extends TType {
   constructor(public paramList: TParamList, public result: TType) { super(); }
 
-  public getChecker(suite: ITypeSuite, strict: boolean): CheckerFunc {
-    return (value: any, ctx: IContext) => {
-      return typeof value === "function" ? true : ctx.fail(null, "is not a function", 0);
-    };
+  // With the checkArity option, also checks that the function has no more parameters than the type
+  // does, as TypeScript requires of functions assigned to it.
+  public getChecker(suite: ITypeSuite, strict: boolean, allowedProps?: Set<string>,
+                    options: ICheckOptions = {}): CheckerFunc {
+    return getFunctionChecker(options.checkArity ? this.paramList.params.length : Infinity);
+  }
+}
+
+/**
+ * Defines an overloaded function, with one signature per overload, e.g.
+ * overloads(func("string", param("s", "string")), func("number", param("n", "number"))).
+ */
+export function overloads(...signatures: TFunc[]): TOverloads {
+  return new TOverloads(signatures);
+}
+export class TOverloads extends TType {
+  constructor(public signatures: TFunc[]) { super(); }
+
+  // With the checkArity option, also checks that the function has no more parameters than some
+  // overload.
+  public getChecker(suite: ITypeSuite, strict: boolean, allowedProps?: Set<string>,
+                    options: ICheckOptions = {}): CheckerFunc {
+    return getFunctionChecker(options.checkArity ?
+      Math.max(...this.signatures.map((s) => s.paramList.params.length)) : Infinity);
+  }
+
+  /**
+   * Returns the type of argument lists that match any overload. If none match, the errors are
+   * those of the closest overload.
+   */
+  public getArgsType(): TType {
+    return new TUnion(this.signatures.map((s) => s.paramList));
+  }
+
+  /**
+   * Returns the type of results of any overload.
+   */
+  public getResultType(): TType {
+    return new TUnion(this.signatures.map((s) => s.result));
   }
 }
 
+// Returns a checker for functions, which fails if a function's length (the number of parameters
+// before the first one with a default value) exceeds maxLength.
+function getFunctionChecker(maxLength: number): CheckerFunc {
+  return (value: any, ctx: IContext) => {
+    if (typeof value !== "function") { return ctx.fail(null, "is not a function", 0); }
+    return value.length <= maxLength ? true :
+      ctx.fail(null, `requires ${value.length} arguments, expected at most ${maxLength}`, 1);
+  };
+}
+
 /**
  * Defines a function parameter.
  */
@@ -469,21 +1999,23 @@ export class TParam {
 export class TParamList extends TType {
   constructor(public params: TParam[]) { super(); }
 
-  public getChecker(suite: ITypeSuite, strict: boolean): CheckerFunc {
-    const itemCheckers = this.params.map((t) => t.ttype.getChecker(suite, strict));
-    const testCtx = new NoopContext();
+  public getChecker(suite: ITypeSuite, strict: boolean, allowedProps?: Set<string>,
+                    options: ICheckOptions = {}): CheckerFunc {
+    const itemCheckers = this.params.map((t) => t.ttype.getChecker(suite, strict, undefined, options));
     const isParamRequired: boolean[] = this.params.map((param, i) =>
-      !param.isOpt && !itemCheckers[i](undefined, testCtx));
+      !param.isOpt && !itemCheckers[i](undefined, new NoopContext()));
 
+    // The score of a failure grows with the number of arguments that matched, so that for
+    // overloaded functions, errors are reported for the closest overload.
     const checker = (value: any, ctx: IContext) => {
       if (!Array.isArray(value)) { return ctx.fail(null, "is not an array", 0); }
       for (let i = 0; i < itemCheckers.length; i++) {
         const p = this.params[i];
         if (value[i] === undefined) {
-          if (isParamRequired[i]) { return ctx.fail(p.name, "is missing", 1); }
+          if (isParamRequired[i]) { return ctx.fail(p.name, "is missing", i + 1); }
         } else {
           const ok = itemCheckers[i](value[i], ctx);
-          if (!ok) { return ctx.fail(p.name, null, 1); }
+          if (!ok) { return ctx.fail(p.name, null, i + 1); }
         }
       }
       return true;
@@ -497,17 +2029,40 @@ export class TParamList extends TType {
         ctx.fail(itemCheckers.length, "is extraneous", 2);
     };
   }
+
+  public getConverter(suite: ITypeSuite, strict: boolean, allowedProps?: Set<string>,
+                      options: IConvertOptions = {}): ConverterFunc {
+    const itemConverters = this.params.map((p) => p.ttype.getConverter(suite, strict, undefined, options));
+    return (value: any) => {
+      if (!Array.isArray(value)) { return value; }
+      const result = options.strip ? value.slice(0, itemConverters.length) : value;
+      return result.map((v, i) => (i < itemConverters.length && v !== undefined) ? itemConverters[i](v) : v);
+    };
+  }
 }
 
 /**
- * Single TType implementation for all basic built-in types.
+ * Single TType implementation for all basic built-in types. The optional coercer is used by
+ * Checker.coerce() to convert a string to this type; it should return undefined if it can't.
  */
 export class BasicType extends TType {
-  constructor(public validator: (value: any) => boolean, private message: string) { super(); }
+  constructor(public validator: (value: any) => boolean, private message: string,
+              public coercer?: (value: string) => any) { super(); }
 
   public getChecker(suite: ITypeSuite, strict: boolean): CheckerFunc {
     return (value: any, ctx: IContext) => this.validator(value) ? true : ctx.fail(null, this.message, 0);
   }
+
+  public getConverter(suite: ITypeSuite, strict: boolean, allowedProps?: Set<string>,
+                      options: IConvertOptions = {}): ConverterFunc {
+    const coercer = this.coercer;
+    if (!options.coerce || !coercer) { return identity; }
+    return (value: any) => {
+      if (typeof value !== "string") { return value; }
+      const result = coercer(value);
+      return result === undefined ? value : result;
+    };
+  }
 }
 
 /**
@@ -516,20 +2071,35 @@ export class BasicType extends TType {
 export const basicTypes: ITypeSuite = {
   any:        new BasicType((v) => true, "is invalid"),
   unknown:    new BasicType((v) => true, "is invalid"),
-  number:     new BasicType((v) => (typeof v === "number"), "is not a number"),
+  number:     new BasicType((v) => (typeof v === "number"), "is not a number", coerceNumber),
   object:     new BasicType((v) => (typeof v === "object" && v), "is not an object"),
-  boolean:    new BasicType((v) => (typeof v === "boolean"), "is not a boolean"),
+  boolean:    new BasicType((v) => (typeof v === "boolean"), "is not a boolean", coerceBoolean),
   string:     new BasicType((v) => (typeof v === "string"), "is not a string"),
   symbol:     new BasicType((v) => (typeof v === "symbol"), "is not a symbol"),
+  bigint:     new BasicType((v) => (typeof v === "bigint"), "is not a bigint"),
   void:       new BasicType((v) => (v == null), "is not void"),
   undefined:  new BasicType((v) => (v === undefined), "is not undefined"),
   null:       new BasicType((v) => (v === null), "is not null"),
   never:      new BasicType((v) => false, "is unexpected"),
 
-  Date:       new BasicType(getIsNativeChecker("[object Date]"), "is not a Date"),
+  Date:       new BasicType(getIsNativeChecker("[object Date]"), "is not a Date", coerceDate),
   RegExp:     new BasicType(getIsNativeChecker("[object RegExp]"), "is not a RegExp"),
 };
 
+function coerceNumber(value: string): number|undefined {
+  const num = Number(value);
+  return (value.trim() === "" || isNaN(num)) ? undefined : num;
+}
+
+function coerceBoolean(value: string): boolean|undefined {
+  return value === "true" ? true : (value === "false" ? false : undefined);
+}
+
+function coerceDate(value: string): Date|undefined {
+  const date = new Date(value);
+  return (value.trim() === "" || isNaN(date.getTime())) ? undefined : date;
+}
+
 // This approach for checking native object types mirrors that of lodash. Its advantage over
 // `isinstance` is that it can still return true for native objects created in different JS
 // execution environments.
@@ -538,6 +2108,10 @@ function getIsNativeChecker(tag: string) {
   return (v: any) => typeof v === "object" && v && nativeToString.call(v) === tag;
 }
 
+// Maps and Sets are recognized by their tag, so that those from other realms are accepted too.
+const isNativeMap = getIsNativeChecker("[object Map]");
+const isNativeSet = getIsNativeChecker("[object Set]");
+
 // Support `Buffer` as type as well, but only if available (it is in nodejs, not in browsers).
 declare abstract class Buffer {
   public static isBuffer(value: any): boolean;
@@ -553,7 +2127,9 @@ for (const array of [Int8Array, Uint8Array, Uint8ClampedArray, Int16Array, Uint1
 }
 
 function getTypeName(t: TType): string | undefined {
-  if (t instanceof TName || t instanceof TLiteral || t instanceof TArray) {
+  if (t instanceof TName && t.typeArgs) { return getInstanceName(t.name, t.typeArgs); }
+  if (t instanceof TName || t instanceof TLiteral || t instanceof TArray || t instanceof TInteger ||
+      t instanceof TTemplateLiteral || t instanceof TKeyOf) {
     return t.name
   }
 }
@@ -10,12 +10,26 @@ export class VError extends Error {
   }
 }
 
+/**
+ * An element of the path to a value being checked: a property name, an array index, or a labeled
+ * array index.
+ */
+export type PathElement = string|number|LabeledIndex;
+
+/**
+ * An array index with a label, as for labeled tuple elements. It's reported using the label, e.g.
+ * "value[first]".
+ */
+export class LabeledIndex {
+  constructor(public index: number, public label: string) {}
+}
+
 /**
  * IContext is used during validation to collect error messages. There is a "noop" fast
  * implementation that does not pay attention to messages, and a full implementation that does.
  */
 export interface IContext {
-  fail(relPath: string|number|null, message: string|null, score: number): false;
+  fail(relPath: PathElement|null, message: string|null, score: number): false;
   unionResolver(): IUnionResolver;
   resolveUnion(ur: IUnionResolver): void;
 
@@ -57,6 +71,21 @@ export interface IContext {
    * Returns true if any failures were recorded in this context.
    */
   failed(): boolean;
+
+  /**
+   * Used by checkers of recursive types, to handle values with circular references. Returns false
+   * if value is already being checked against the same type (identified by key) further up; the
+   * checker should then return the result of circular(). Otherwise, the checker must call
+   * leave(value) once it's done checking the value.
+   */
+  enter(value: object, key: object): boolean;
+  leave(value: object): void;
+
+  /**
+   * Called when a circular reference is found. Returns true if circular references are allowed,
+   * or records a failure and returns false.
+   */
+  circular(): boolean;
 }
 
 /**
@@ -75,6 +104,39 @@ export interface IErrorDetail {
   nested?: IErrorDetail[];
 }
 
+/**
+ * Keeps track of the values being checked to detect circular references. It is shared by a
+ * context with all the contexts derived from it.
+ */
+export class VisitTracker {
+  // Maps values to the stack of keys of the types they are being checked against.
+  private _visiting?: Map<object, object[]>;
+
+  constructor(public allowCircular: boolean) {}
+
+  public enter(value: object, key: object): boolean {
+    if (!this._visiting) { this._visiting = new Map(); }
+    const keys = this._visiting.get(value);
+    if (!keys) {
+      this._visiting.set(value, [key]);
+    } else if (keys.indexOf(key) === -1) {
+      keys.push(key);
+    } else {
+      return false;
+    }
+    return true;
+  }
+
+  public leave(value: object): void {
+    const keys = this._visiting!.get(value)!;
+    keys.pop();
+    if (keys.length === 0) { this._visiting!.delete(value); }
+  }
+}
+
+// Message for circular references. DetailContext adds to it the path of the first reference.
+const circularMessage = "is a circular reference";
+
 /**
  * Fast implementation of IContext used for first-pass validation. If that fails, we can validate
  * using DetailContext to collect error messages. That's faster for the common case when messages
@@ -82,8 +144,13 @@ export interface IErrorDetail {
  */
 export class NoopContext implements IContext, IUnionResolver {
   private _failed: boolean = false;
+  private _tracker: VisitTracker;
+
+  constructor(allowCircular: boolean = true) {
+    this._tracker = new VisitTracker(allowCircular);
+  }
 
-  public fail(relPath: string|number|null, message: string|null, score: number): false {
+  public fail(relPath: PathElement|null, message: string|null, score: number): false {
     this._failed = true;
     return false;
   }
@@ -106,6 +173,12 @@ export class NoopContext implements IContext, IUnionResolver {
     return this;
   }
   public resolveUnion(ur: IUnionResolver): void { /* noop */ }
+
+  public enter(value: object, key: object): boolean { return this._tracker.enter(value, key); }
+  public leave(value: object): void { this._tracker.leave(value); }
+  public circular(): boolean {
+    return this._tracker.allowCircular || this.fail(null, circularMessage, 0);
+  }
 }
 
 /**
@@ -113,7 +186,7 @@ export class NoopContext implements IContext, IUnionResolver {
  */
 export class DetailContext implements IContext {
   // Stack of property names and associated messages for reporting helpful error messages.
-  private _propNames: Array<string|number|null> = [];
+  private _propNames: Array<PathElement|null> = [];
   private _messages: Array<string|null> = [];
 
   /** Contexts created by fork() which have completed and contain failures */
@@ -138,14 +211,20 @@ export class DetailContext implements IContext {
   // Higher score means better match (or rather less severe mismatch).
   private _score: number = 0;
 
-  public fail(relPath: string|number|null, message: string|null, score: number): false {
+  private _tracker: VisitTracker;
+
+  constructor(allowCircular: boolean|VisitTracker = true) {
+    this._tracker = (allowCircular instanceof VisitTracker) ? allowCircular : new VisitTracker(allowCircular);
+  }
+
+  public fail(relPath: PathElement|null, message: string|null, score: number): false {
     this._propNames.push(relPath);
     this._messages.push(message);
     this._score += score;
     return false;
   }
   public unionResolver(): IUnionResolver {
-    return new DetailUnionResolver();
+    return new DetailUnionResolver(this._tracker);
   }
   public resolveUnion(unionResolver: IUnionResolver): void {
     const u = unionResolver as DetailUnionResolver;
@@ -162,27 +241,45 @@ export class DetailContext implements IContext {
     }
   }
 
-  public getError(path: string): VError {
-    const fullMessage = flatten(this.getErrorDetails(path).map(errorLines))
+  /**
+   * Returns the error for the checked value. The value itself is only needed to describe circular
+   * references.
+   */
+  public getError(path: string, value?: any): VError {
+    const fullMessage = flatten(this.getErrorDetails(path, value).map(errorLines))
         .join("\n");
     return new VError(path, fullMessage);
   }
 
-  public getErrorDetails(path: string): IErrorDetail[] {
+  /**
+   * Returns error details for the value at the given path. The ancestors argument is used
+   * internally to find the first reference to a value in case of circular references.
+   */
+  public getErrorDetails(path: string, value?: any, ancestors: Array<[any, string]> = []): IErrorDetail[] {
     let detail: IErrorDetail|null = null;
     let nested: IErrorDetail;
     let details: IErrorDetail[] = [];
+    ancestors = [...ancestors, [value, path]];
 
     // As checkers call fail() and return to their parent checkers,
     // the deepest failures are recorded first.
     // Go through failures in reverse to start from the root type
     for (let i = this._propNames.length - 1; i >= 0; i--) {
       const p = this._propNames[i];
-      path += (typeof p === "number") ? `[${p}]` : (p ? `.${p}` : "");
-      const message = this._messages[i];
+      if (p !== null) {
+        path += (typeof p === "number") ? `[${p}]` : (p instanceof LabeledIndex) ? `[${p.label}]` : `.${p}`;
+        const key = (p instanceof LabeledIndex) ? p.index : p;
+        value = (typeof value === "object" && value !== null) ? value[key] : undefined;
+        ancestors.push([value, path]);
+      }
+      let message = this._messages[i];
       if (!message) {
         continue;
       }
+      if (message === circularMessage) {
+        const first = ancestors.find(([v]) => v === value);
+        if (first && first[1] !== path) { message += ` to ${first[1]}`; }
+      }
 
       nested = {path, message}
       if (detail) {
@@ -195,7 +292,7 @@ export class DetailContext implements IContext {
       detail = nested;
     }
 
-    const forkErrors = flatten(this._failedForks.map(fork => fork.getErrorDetails(path)));
+    const forkErrors = flatten(this._failedForks.map(fork => fork.getErrorDetails(path, value, ancestors)));
     if (detail) {
       // don't put an empty array in detail.nested
       if (forkErrors.length) {
@@ -212,7 +309,7 @@ export class DetailContext implements IContext {
 
   public fork(): IContext {
     if (this._currentFork == null) {
-      this._currentFork = new DetailContext();
+      this._currentFork = new DetailContext(this._tracker);
     }
     return this._currentFork;
   }
@@ -242,6 +339,12 @@ export class DetailContext implements IContext {
     return this._failed();
   }
 
+  public enter(value: object, key: object): boolean { return this._tracker.enter(value, key); }
+  public leave(value: object): void { this._tracker.leave(value); }
+  public circular(): boolean {
+    return this._tracker.allowCircular || this.fail(null, circularMessage, 0);
+  }
+
   private _failed(): boolean {
     return this._propNames.length + this._failedForks.length > 0;
   }
@@ -249,8 +352,9 @@ export class DetailContext implements IContext {
 
 class DetailUnionResolver implements IUnionResolver {
   public contexts: DetailContext[] = [];
+  constructor(private _tracker: VisitTracker) {}
   public createContext(): DetailContext {
-    const ctx = new DetailContext();
+    const ctx = new DetailContext(this._tracker);
     this.contexts.push(ctx);
     return ctx;
   }
@@ -10,13 +10,16 @@ const bench = require("./proto-bench-ti");
 const pbjsStaticCls = require("./static_pbjs");
 
 const {ITest} = createCheckers(bench);
+const compiled = createCheckers(bench, {compile: true});
 
 const badData = Object.assign({}, data, {uint32: "asdf"});
 
 assert.throws(() => ITest.check(badData), /\.uint32 is none of number, null/);
+assert.throws(() => compiled.ITest.check(badData), /\.uint32 is none of number, null/);
 assert.match(pbjsStaticCls.Test.verify(badData), /integer expected/);
 
 assert.strictEqual(ITest.check(data), undefined);
+assert.strictEqual(compiled.ITest.check(data), undefined);
 assert.strictEqual(pbjsStaticCls.Test.verify(data), null);
 
 const suite = new Benchmark.Suite("encode/decode");
@@ -24,6 +27,9 @@ suite
 .add("ts-interface-checker", function() {
   ITest.check(data);
 })
+.add("ts-interface-checker compiled", function() {
+  compiled.ITest.check(data);
+})
 .add("protobuf verify", function() {
   pbjsStaticCls.Test.verify(data);
 })
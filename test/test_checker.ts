@@ -10,6 +10,7 @@ import intersectionTI from "./fixtures/intersection-ti";
 import indexSignaturesTI from "./fixtures/index-signatures-ti";
 import recursiveTI from "./fixtures/recursive-ti";
 import {applyPatches, removePatches} from "./monkeypatch";
+import {NoopContext} from "../lib/util";
 
 function noop() { /* noop */ }
 
@@ -218,6 +219,47 @@ function suite() {
     assert.throws(() => Type.check(["foo", 1, "hello"]), "value[2] is not a number");
   });
 
+  it("should support rest types anywhere in tuples", () => {
+    const {Leading, Middle} = createCheckers({
+      Leading: t.tuple(t.rest(t.array("string")), "number"),
+      Middle: t.tuple("string", t.rest(t.array("number")), "boolean", t.opt("null")),
+    });
+    Leading.check([1]);
+    Leading.check(["a", "b", 1]);
+    Leading.strictCheck(["a", "b", 1]);
+    assert.throws(() => Leading.check([]), "value[0] is not a number");
+    assert.throws(() => Leading.check(["a", "b"]), "value[1] is not a number");
+    assert.throws(() => Leading.check(["a", 2, 1]), "value[1] is not a string");
+
+    Middle.check(["a", true, null]);
+    Middle.check(["a", 1, 2, true, null]);
+    assert.throws(() => Middle.check(["a", 1, 2, true]), "value[2] is not a boolean");
+    assert.throws(() => Middle.check(["a", 1, "2", true, null]), "value[2] is not a number");
+    assert.throws(() => Middle.check(["a"]), "value[1] is not a boolean");
+
+    assert.deepEqual(createCheckers({T: t.tuple(t.rest(t.array("number")), "boolean")}).T.coerce(["1", "2", "true"]),
+      [1, 2, true]);
+    assert.throws(() => t.tuple(t.rest(t.array("number")), t.rest(t.array("string"))),
+      /Tuple may have only one rest element/);
+  });
+
+  it("should use labels of tuple elements in errors", () => {
+    const {Range, Args} = createCheckers({
+      Range: t.tuple(t.labeled("start", "number"), t.labeled("end", t.opt("number"))),
+      Args: t.tuple(t.labeled("first", t.iface([], {name: "string"})), t.labeled("rest", t.rest(t.array("number")))),
+    });
+    Range.check([1]);
+    Range.check([1, 2]);
+    assertCheckerErrors(Range, ["1"], "value[start] is not a number", {path: "value[start]", message: "is not a number"});
+    assert.throws(() => Range.check([1, "2"]), /^value\[end\] is not a number$/);
+    assert.throws(() => Range.strictCheck([1, 2, 3]), /^value\[2\] is extraneous$/);
+
+    Args.check([{name: "a"}, 1, 2]);
+    assert.throws(() => Args.check([{name: 1}]), /^value\[first\].name is not a string$/);
+    // Rest elements are reported by index.
+    assert.throws(() => Args.check([{name: "a"}, 1, "2"]), /^value\[2\] is not a number$/);
+  });
+
   it("should fail for a rest type not containing an array", () => {
     const typeSuite = {
       num: t.opt("number"),
@@ -285,6 +327,59 @@ function suite() {
     assert.throws(() => Shape.check({kind: "circle", Radius: 0.5}), /value.radius is missing/);
   });
 
+  it("should dispatch discriminated unions on the discriminant", () => {
+    const {Shape} = createCheckers(shapes);
+    assertCheckerErrors(Shape, {kind: "triangle", size: 1},
+      'value is none of Square, Rectangle, Circle; value.kind is not one of "square", "rectangle", "circle"',
+      {path: "value", message: "is none of Square, Rectangle, Circle", nested: [
+        {path: "value.kind", message: 'is not one of "square", "rectangle", "circle"'},
+      ]});
+    // Errors come from the member selected by the discriminant, even if another one is closer.
+    assert.throws(() => Shape.check({kind: "circle", width: 1, height: 2}),
+      /^value is none of Square, Rectangle, Circle; value is not a Circle; value.radius is missing$/);
+
+    const {Event, Nested} = createCheckers(enumUnionTI, {
+      Event: t.union(
+        t.iface([], {type: t.union(t.lit("click"), t.lit("tap")), x: "number"}),
+        t.iface([], {type: t.lit("key"), key: "string"}),
+        t.iface([], {type: t.lit("key"), code: "number"}),
+      ),
+      Nested: t.union("Square", "Circle"),
+    });
+    Event.check({type: "tap", x: 1});
+    Event.check({type: "key", code: 1});
+    assert.throws(() => Event.check({type: "click", key: "a"}), /^value is none of 3 types; value.x is missing$/);
+    // With several members allowing the same value, the error is from one of them.
+    assert.throws(() => Event.check({type: "key", key: 1}),
+      /^value is none of 3 types; value.(key is not a string|code is missing)$/);
+    assert.throws(() => Event.check({type: "scroll"}),
+      /^value is none of 3 types; value.type is not one of "click", "tap", "key"$/);
+
+    // Enum literals work as discriminants too.
+    Nested.check({kind: enumUnion.ShapeKind.Circle, radius: 1});
+    assert.throws(() => Nested.check({kind: enumUnion.ShapeKind.Rectangle}),
+      /^value is none of Square, Circle; value.kind is not one of 0, 2$/);
+  });
+
+  it("should report the matched member of a union", () => {
+    const {Shape, Square, Alias, Mixed} = createCheckers(shapes, {
+      Alias: t.name("Shape"),
+      Mixed: t.union("number", t.iface([], {size: "number"})),
+    });
+    const members = (Shape.getType() as t.TUnion).ttypes;
+    assert.deepEqual(Shape.match({kind: "circle", radius: 1}), {index: 2, ttype: members[2], name: "Circle"});
+    assert.deepEqual(Alias.match({kind: "square", size: 1}), {index: 0, ttype: members[0], name: "Square"});
+    assert.deepEqual(Mixed.match({size: 1, extra: 1}),
+      {index: 1, ttype: (Mixed.getType() as t.TUnion).ttypes[1]});
+    assert.deepEqual(Mixed.strictMatch({size: 1, extra: 1}).errors, [
+      {path: "value", message: "is none of number, 1 more", nested: [
+        {path: "value.extra", message: "is extraneous"},
+      ]},
+    ]);
+    assert.deepEqual(Shape.match({kind: "circle"}), {index: -1, errors: Shape.validate({kind: "circle"})!});
+    assert.throws(() => Square.match({kind: "square", size: 1}), /match\(\) applied to non-union type/);
+  });
+
   it("should handle enum-based discriminated unions", () => {
     const {Shape, Circle, Square} = createCheckers(enumUnionTI);
     Shape.check({kind: enumUnion.ShapeKind.Square});
@@ -407,6 +502,386 @@ function suite() {
       /value.d is extraneous/);
   });
 
+  it("should support refinements", () => {
+    const {Range, Ranges, Tags, Either} = createCheckers({
+      Range: t.refine(t.iface([], {start: "number", end: "number"}),
+        (v) => v.end >= v.start, "has end before start"),
+      Ranges: t.iface([], {main: "Range", others: t.opt(t.array("Range"))}),
+      Tags: t.refine(t.array("string"), (v) => v.length > 0, "is empty"),
+      Either: t.union(t.iface([], {a: "number"}), "Tags"),
+    });
+    Range.check({start: 1, end: 2});
+    Range.check({start: 1, end: 1});
+    assert.isTrue(Range.test({start: 1, end: 2}));
+    assert.isFalse(Range.test({start: 2, end: 1}));
+    assert.throws(() => Range.check({start: 2, end: 1}), /^value has end before start$/);
+    assert.throws(() => Range.check({start: 2}), /^value.end is missing$/);
+    assert.throws(() => Ranges.check({main: {start: 1, end: 2}, others: [{start: 1, end: 2}, {start: 2, end: 1}]}),
+      /^value.others\[1\] is not a Range; value.others\[1\] has end before start$/);
+    assert.deepEqual(Ranges.validate({main: {start: 2, end: 1}}), [{
+      path: "value.main", message: "is not a Range",
+      nested: [{path: "value.main", message: "has end before start"}],
+    }]);
+
+    // Strict checks apply to the refined type.
+    Range.strictCheck({start: 1, end: 2});
+    assert.isFalse(Range.strictTest({start: 1, end: 2, extra: 3}));
+    assert.throws(() => Range.strictCheck({start: 1, end: 2, extra: 3}), /^value.extra is extraneous$/);
+    assert.isNull(Range.strictValidate({start: 1, end: 2}));
+
+    Tags.check(["a"]);
+    assert.throws(() => Tags.check([]), /^value is empty$/);
+    assert.throws(() => Tags.check([1]), /^value\[0\] is not a string$/);
+
+    // A failed refinement is preferred when reporting union errors.
+    assert.throws(() => Either.check([]), /^value is none of Tags, 1 more; value is not a Tags; value is empty$/);
+
+    const ttype = Range.getType();
+    assert.instanceOf(ttype, t.TRefine);
+    assert.instanceOf((ttype as t.TRefine).ttype, t.TIface);
+    assert.equal((ttype as t.TRefine).message, "has end before start");
+  });
+
+  it("should support constraints", () => {
+    const {Item} = createCheckers({
+      Percent: t.intersection("number", t.range(0, 100)),
+      Name: t.intersection("string", t.length(1, 5), t.pattern(/^[a-z]*$/)),
+      Item: t.iface([], {
+        count: t.integer(),
+        percent: "Percent",
+        positive: t.opt(t.intersection(t.integer(), t.range(1))),
+        name: "Name",
+        tags: t.opt(t.intersection(t.array("string"), t.length(null, 2))),
+        id: t.opt(t.intersection("string", t.format("uuid"))),
+        email: t.opt(t.intersection("string", t.format("email"))),
+        created: t.opt(t.intersection("string", t.format("date-time"))),
+        url: t.opt(t.intersection("string", t.format("uri"))),
+        code: t.opt(t.intersection("string", t.pattern("^[A-Z]{3}$"))),
+        intOrNull: t.opt(t.union(t.integer(), "null")),
+      }),
+    });
+    const item = {count: 3, percent: 50, name: "abc"};
+    Item.check(item);
+    Item.check({...item, count: -3, percent: 0, positive: 1, tags: ["a", "b"],
+      id: "123e4567-e89b-12d3-a456-426614174000", email: "a@b.co", created: "2021-04-14T10:00:00Z",
+      url: "https://example.com/x?y", code: "ABC", intOrNull: null});
+    Item.check({...item, percent: 100, name: "abcde", tags: []});
+
+    assert.throws(() => Item.check({...item, count: 1.5}), /^value.count is not an integer$/);
+    assert.throws(() => Item.check({...item, count: "1"}), /^value.count is not an integer$/);
+    assert.throws(() => Item.check({...item, count: Infinity}), /^value.count is not an integer$/);
+    assert.throws(() => Item.check({...item, percent: 101}), /^value.percent is not a Percent; value.percent is greater than 100$/);
+    assert.throws(() => Item.check({...item, percent: -1}), /^value.percent is not a Percent; value.percent is less than 0$/);
+    assert.throws(() => Item.check({...item, percent: "1"}), /^value.percent is not a Percent; value.percent is not a number$/);
+    assert.throws(() => Item.check({...item, positive: 0}), /^value.positive is less than 1$/);
+    assert.throws(() => Item.check({...item, positive: 1.5}), /^value.positive is not an integer$/);
+    assert.throws(() => Item.check({...item, name: ""}), /^value.name is not a Name; value.name has length less than 1$/);
+    assert.throws(() => Item.check({...item, name: "abcdef"}), /^value.name is not a Name; value.name has length greater than 5$/);
+    assert.throws(() => Item.check({...item, name: "aB"}), /^value.name is not a Name; value.name does not match \/\^\[a-z\]\*\$\/$/);
+    assert.throws(() => Item.check({...item, name: "ABCDEF"}), dedent(`
+      value.name is not a Name
+          value.name has length greater than 5
+          value.name does not match /^[a-z]*$/
+    `));
+    assert.throws(() => Item.check({...item, tags: ["a", "b", "c"]}), /^value.tags has length greater than 2$/);
+    assert.throws(() => Item.check({...item, id: "123"}), /^value.id is not a valid uuid$/);
+    assert.throws(() => Item.check({...item, email: "a@b"}), /^value.email is not a valid email$/);
+    assert.throws(() => Item.check({...item, created: "2021-04-14"}), /^value.created is not a valid date-time$/);
+    assert.throws(() => Item.check({...item, created: "2021-13-45T10:00:00Z"}), /^value.created is not a valid date-time$/);
+    assert.throws(() => Item.check({...item, url: "example.com"}), /^value.url is not a valid uri$/);
+    assert.throws(() => Item.check({...item, code: "AB"}), /^value.code does not match \/\^\[A-Z\]\{3\}\$\/$/);
+    assert.throws(() => Item.check({...item, intOrNull: 0.5}), /^value.intOrNull is none of integer, null$/);
+
+    // Constraints don't apply to values of other types.
+    createCheckers({Range: t.range(0, 1)}).Range.check("x");
+
+    assert.deepEqual(Item.coerce({...item, count: "3"}).count, 3);
+    assert.throws(() => createCheckers({Bad: t.format("bad")}), /Unknown format bad/);
+  });
+
+  it("should support template literal types", () => {
+    const {UserId, Route, Pair, Flag, Key, Dir} = createCheckers(sample, {
+      UserId: t.template("user_", "number"),
+      Method: t.union(t.lit("GET"), t.lit("POST")),
+      Route: t.template("", "Method", " /", "string"),
+      Pair: t.template("", "string", "_", "bigint", ""),
+      Flag: t.template("is", t.union("boolean", "null"), "!"),
+      Key: t.template("data-", t.template("", "string", "-", "NumberAlias")),
+      Dir: t.iface([], {dir: t.template("dir:", "Direction"), left: t.template("", t.enumlit("DirectionStr", "Left"))}),
+    });
+    UserId.check("user_17");
+    UserId.check("user_-1.5e3");
+    assert.throws(() => UserId.check("user_"), /^value is not a "user_\${number}"$/);
+    assert.throws(() => UserId.check("user_x"), /^value is not a "user_\${number}"$/);
+    assert.throws(() => UserId.check("user_ 1"), /^value is not a "user_\${number}"$/);
+    assert.throws(() => UserId.check("usr_1"), /^value is not a "user_\${number}"$/);
+    assert.throws(() => UserId.check(17), /^value is not a "user_\${number}"$/);
+
+    Route.check("GET /");
+    Route.check("POST /users/17");
+    assert.throws(() => Route.check("PUT /users"), /^value is not a "\${Method} \/\${string}"$/);
+    assert.throws(() => Route.check("GET/users"), /^value is not a "\${Method} \/\${string}"$/);
+
+    // Placeholders may need backtracking to match.
+    Pair.check("a_b_12");
+    Pair.check("_-3");
+    assert.throws(() => Pair.check("a_b_1.5"), /is not a "\${string}_\${bigint}"/);
+
+    Flag.check("istrue!");
+    Flag.check("isnull!");
+    assert.throws(() => Flag.check("isyes!"), /is not a "is\${boolean \| null}!"/);
+
+    Key.check("data-foo-bar-5");
+    assert.throws(() => Key.check("data-foo"), /is not a "data-\$\{`\$\{string}-\${NumberAlias}`}"/);
+
+    Dir.check({dir: "dir:17", left: "LEFT"});
+    assert.throws(() => Dir.check({dir: "dir:3", left: "LEFT"}), /^value.dir is not a "dir:\${Direction}"$/);
+    assert.throws(() => Dir.check({dir: "dir:1", left: "RIGHT"}), /^value.left is not a "\${DirectionStr.Left}"$/);
+
+    assert.throws(() => t.template("a", "number", t.lit("b")), /text must be a string/);
+    assert.throws(() => createCheckers({Bad: t.template("a", t.array("number"))}),
+      /Unsupported type in template literal/);
+  });
+
+  it("should support generic types", () => {
+    const {Paginated, Page, List, Pair, Resp} = createCheckers({
+      User: t.iface([], {name: "string"}),
+      Paginated: t.generic(["T"], t.iface([], {items: t.array("T"), total: "number"})),
+      Page: t.iface([], {users: t.name("Paginated", ["User"]), ids: t.name("Paginated", ["number"])}),
+      List: t.generic(["T"], t.iface([], {value: "T", next: t.opt(t.name("List", ["T"]))})),
+      Pair: t.generic(["A", "B"], t.tuple("A", t.name("List", ["B"]))),
+      Resp: t.generic(["T"], t.union(t.iface([], {ok: t.lit(true), data: "T"}),
+                                     t.iface([], {ok: t.lit(false), error: "string"}))),
+    });
+
+    // Used directly, type parameters are taken to be "any".
+    Paginated.check({items: [1, "a"], total: 2});
+    assert.throws(() => Paginated.check({items: {}, total: 2}), /^value.items is not an array$/);
+
+    const PaginatedUser = Paginated.instantiate("User");
+    PaginatedUser.check({items: [{name: "a"}], total: 1});
+    assert.throws(() => PaginatedUser.check({items: [{name: 1}], total: 1}),
+      /^value.items\[0\] is not a User; value.items\[0\].name is not a string$/);
+    assert.throws(() => PaginatedUser.strictCheck({items: [{name: "a", age: 1}], total: 1}),
+      /^value.items\[0\] is not a User; value.items\[0\].age is extraneous$/);
+    Paginated.instantiate(t.union("number", "null")).check({items: [1, null], total: 2});
+    assert.throws(() => Paginated.instantiate("User", "number"), /expects 1 type arguments, got 2/);
+    assert.throws(() => Page.instantiate("User"), /instantiate\(\) applied to non-generic type/);
+
+    Page.check({users: {items: [{name: "a"}], total: 1}, ids: {items: [1], total: 1}});
+    assert.throws(() => Page.check({users: {items: [{name: "a"}], total: 1}, ids: {items: ["1"], total: 1}}),
+      /^value.ids is not a Paginated<number>; value.ids.items\[0\] is not a number$/);
+
+    // Recursive generics.
+    List.instantiate("string").check({value: "a", next: {value: "b", next: {value: "c"}}});
+    assert.throws(() => List.instantiate("string").check({value: "a", next: {value: "b", next: {value: 3}}}),
+      /^value.next is not a List<string>; value.next.next is not a List<string>; value.next.next.value is not a string$/);
+    Pair.instantiate("string", "number").check(["a", {value: 1, next: {value: 2}}]);
+    assert.throws(() => Pair.instantiate("string", "number").check(["a", {value: 1, next: {value: "2"}}]),
+      /^value\[1\] is not a List<number>; value\[1\].next is not a List<number>; value\[1\].next.value is not a number$/);
+    const cycle: any = {value: 1};
+    cycle.next = cycle;
+    List.instantiate("number").check(cycle);
+
+    // Nested instantiations of the same generic type.
+    const {Box, Boxes} = createCheckers({
+      Box: t.generic(["T"], t.iface([], {v: "T"})),
+      Boxes: t.iface([], {b: t.name("Box", [t.name("Box", ["string"])])}),
+    });
+    for (const BoxBox of [Box.instantiate(t.name("Box", ["string"])), Boxes.getProp("b")]) {
+      BoxBox.check({v: {v: "s"}});
+      assert.deepEqual(BoxBox.strip({v: {v: "s", x: 1}, y: 2}), {v: {v: "s"}});
+    }
+    assert.throws(() => Boxes.check({b: {v: {v: 1}}}),
+      /^value.b is not a Box<Box<string>>; value.b.v is not a Box<string>; value.b.v.v is not a string$/);
+
+    const RespUser = Resp.instantiate(t.iface([], {name: "string"}));
+    RespUser.check({ok: true, data: {name: "a"}});
+    RespUser.check({ok: false, error: "oops"});
+    assert.isFalse(RespUser.test({ok: true, data: {}}));
+    assert.deepEqual(RespUser.coerce({ok: "true", data: {name: "a"}}), {ok: true, data: {name: "a"}});
+
+    assert.throws(() => createCheckers({Bad: t.iface([], {x: t.name("number", ["string"])})}),
+      /Type number is not generic/);
+    assert.throws(() => createCheckers({
+      Nested: t.generic(["T"], t.iface([], {nested: t.opt(t.name("Nested", [t.array("T")]))})),
+    }), /instantiation is too deep/);
+  });
+
+  it("should support utility types", () => {
+    const {PartialItem, RequiredSampling, PickItem, NoGet, Scores, Flags, Labels, Frozen, PickBox,
+           PartialIndexed} = createCheckers(sample, {
+      Sampled: t.iface(["ICacheItem"], {xday: "number", yday: t.opt("number")}),
+      PartialItem: t.partial("ICacheItem"),
+      RequiredSampling: t.required("Sampled"),
+      PickItem: t.pick("Sampled", "key", "xday"),
+      NoGet: t.omit("ILRUCache", "get"),
+      Scores: t.record(t.union(t.lit("a"), t.lit("b")), "number"),
+      Flags: t.record("DirectionStr", "boolean"),
+      Labels: t.record("string", "string"),
+      Frozen: t.readonly(t.partial(t.pick("ICacheItem", "key", "size"))),
+      Box: t.generic(["T"], t.iface([], {value: "T", label: "string"})),
+      PickBox: t.pick(t.name("Box", ["number"]), "value"),
+      PartialIndexed: t.partial(t.iface([], {a: "number", [t.indexKey]: "number"})),
+    });
+
+    PartialItem.check({});
+    PartialItem.check({key: "a", size: 1});
+    assert.throws(() => PartialItem.check({size: "1"}), /^value.size is not a number$/);
+    assert.throws(() => PartialItem.strictCheck({foo: 1}), /^value.foo is extraneous$/);
+
+    // Inherited properties are included.
+    assertCheckerErrors(RequiredSampling, {key: "a", value: 1, size: 1, xday: 1, yday: 2},
+      "value.tag is missing", {path: "value.tag", message: "is missing"});
+    RequiredSampling.strictCheck({key: "a", value: 1, size: 1, tag: "x", xday: 1, yday: 2});
+
+    PickItem.strictCheck({key: "a", xday: 1});
+    assert.throws(() => PickItem.check({key: "a"}), /^value.xday is missing$/);
+    assert.throws(() => PickItem.strictCheck({key: "a", xday: 1, size: 1}), /^value.size is extraneous$/);
+    assert.throws(() => createCheckers(sample, {Bad: t.pick("ICacheItem", "foo")}), /Type has no property foo/);
+
+    NoGet.strictCheck({capacity: 1, set: () => true});
+    assert.throws(() => NoGet.strictCheck({capacity: 1, set: () => true, get: () => null}),
+      /^value.get is extraneous$/);
+
+    Scores.strictCheck({a: 1, b: 2});
+    assert.throws(() => Scores.check({a: 1}), /^value.b is missing$/);
+    assert.throws(() => Scores.strictCheck({a: 1, b: 2, c: 3}), /^value.c is extraneous$/);
+    Flags.strictCheck({UP: true, DOWN: false, LEFT: true, RIGHT: false});
+    assert.throws(() => Flags.check({UP: true, DOWN: false, LEFT: true}), /^value.RIGHT is missing$/);
+    Labels.strictCheck({x: "a", y: "b"});
+    assert.throws(() => Labels.check({x: 1}), /^value.x is not a string$/);
+    assert.throws(() => createCheckers({Bad: t.record(t.array("string"), "number")}),
+      /Unsupported key type in record/);
+
+    Frozen.strictCheck({key: "a"});
+    assert.throws(() => Frozen.strictCheck({value: 1}), /^value.value is extraneous$/);
+
+    PickBox.strictCheck({value: 1});
+    assert.throws(() => PickBox.check({value: "1"}), /^value.value is not a number$/);
+
+    PartialIndexed.check({b: 2});
+    assert.throws(() => PartialIndexed.check({b: "2"}), /^value.b is not a number$/);
+
+    assert.deepEqual(PickItem.strip({key: "a", xday: 1, yday: 2}), {key: "a", xday: 1});
+    assert.throws(() => createCheckers({Bad: t.partial("string")}), /Type is not an interface/);
+  });
+
+  it("should support keyof and indexed access types", () => {
+    const {Key, DirKey, Timeouts, Tag, Connect, KeyOfBox, Counts} = createCheckers(sample, {
+      Config: t.iface(["ICacheItem"], {timeouts: t.iface([], {connect: "number"}), 1: "boolean"}),
+      Box: t.generic(["T"], t.iface([], {value: "T"})),
+      Key: t.keyof("Config"),
+      DirKey: t.keyof("Direction"),
+      Timeouts: t.indexed("Config", "timeouts"),
+      Tag: t.indexed("Config", "tag"),
+      Connect: t.indexed(t.indexed("Config", "timeouts"), "connect"),
+      KeyOfBox: t.indexed(t.name("Box", ["string"]), "value"),
+      Counts: t.keyof(t.iface([], {[t.indexKey]: "number"})),
+    });
+
+    for (const key of ["key", "value", "size", "tag", "timeouts", "1", 1]) { Key.check(key); }
+    assert.throws(() => Key.check("foo"), /^value is not a keyof Config$/);
+    assert.throws(() => Key.check(2), /^value is not a keyof Config$/);
+    assert.throws(() => Key.check(null), /^value is not a keyof Config$/);
+
+    DirKey.check("Up");
+    assert.throws(() => DirKey.check(1), /^value is not a keyof Direction$/);
+
+    Timeouts.check({connect: 1});
+    assert.throws(() => Timeouts.check({connect: "1"}), /^value.connect is not a number$/);
+    Tag.check("a");
+    Tag.check(undefined);
+    assert.throws(() => Tag.check(1), /^value is not a string$/);
+    Connect.check(1);
+    assert.throws(() => Connect.check("1"), /^value is not a number$/);
+    KeyOfBox.check("a");
+    assert.throws(() => KeyOfBox.check(1), /^value is not a string$/);
+    Counts.check("anything");
+
+    assert.throws(() => createCheckers(sample, {Bad: t.indexed("ICacheItem", "foo")}), /Type has no property foo/);
+    assert.throws(() => createCheckers(sample, {Bad: t.keyof("NumberAlias")}), /Type is not an interface/);
+  });
+
+  it("should support Map, Set and Promise types", async () => {
+    const {Scores, Tags, Lookup, Pending, Named} = createCheckers(sample, {
+      Scores: t.map("string", "number"),
+      Tags: t.set(t.union(t.lit("a"), t.lit("b"))),
+      Lookup: t.map("number", t.iface([], {name: "string"})),
+      Pending: t.promise(t.iface([], {name: "string"})),
+      Named: t.name("Pending"),
+    });
+
+    Scores.check(new Map([["x", 1], ["y", 2]]));
+    Scores.check(new Map());
+    assertCheckerErrors(Scores, new Map<any, any>([["x", 1], ["y", "2"]]),
+      'value.get("y") is not a number', {path: 'value.get("y")', message: "is not a number"});
+    assert.throws(() => Scores.check(new Map<any, any>([["x", 1], [2, 2]])), /^value.keys\(\)\[1\] is not a string$/);
+    assert.throws(() => Scores.check({x: 1}), /^value is not a Map$/);
+    assert.throws(() => Scores.check(new Set()), /^value is not a Map$/);
+    assert.throws(() => Lookup.check(new Map([[17, {name: 1}]])),
+      /^value.get\(17\).name is not a string$/);
+    assert.throws(() => Lookup.strictCheck(new Map([[17, {name: "a", age: 1}]])),
+      /^value.get\(17\).age is extraneous$/);
+
+    Tags.check(new Set(["a", "b"]));
+    assert.throws(() => Tags.check(new Set(["a", "c"])), /^value.values\(\)\[1\] is none of "a", "b"$/);
+    assert.throws(() => Tags.check(["a"]), /^value is not a Set$/);
+
+    assert.deepEqual(Array.from(createCheckers({M: t.map("number", "boolean")}).M.coerce(new Map([["1", "true"]]))),
+      [[1, true]]);
+    assert.deepEqual(Array.from(createCheckers({S: t.set("number")}).S.coerce(new Set(["1", "2"]))), [1, 2]);
+
+    // Only the thenable is checked synchronously.
+    Pending.check(Promise.resolve({name: 1}));
+    Pending.check({then: () => null});
+    assert.throws(() => Pending.check({name: "a"}), /^value is not a Promise$/);
+
+    assert.deepEqual(await Pending.checkAsync(Promise.resolve({name: "a"})), {name: "a"});
+    assert.deepEqual(await Named.checkAsync(Promise.resolve({name: "a"})), {name: "a"});
+    await assertRejects(Pending.checkAsync(Promise.resolve({name: 1})), /^\(await value\).name is not a string$/);
+    await assertRejects(Pending.strictCheckAsync(Promise.resolve({name: "a", age: 1})),
+      /^\(await value\).age is extraneous$/);
+    await assertRejects(Named.checkAsync({name: "a"}), /^value is not a Pending; value is not a Promise$/);
+    assert.deepEqual(await Scores.checkAsync(new Map([["x", 1]])), new Map([["x", 1]]));
+  });
+
+  it("should support class instance types", () => {
+    class Decimal {
+      constructor(public digits: string) {}
+    }
+    class Long {}
+    const suite = {
+      IDecimal: t.iface([], {digits: "string"}),
+      Price: t.iface([], {amount: t.instance("Decimal"), total: t.opt(t.instance("Decimal", "IDecimal"))}),
+      Id: t.instance("Long"),
+    };
+    const {Price, Id} = createCheckers(suite, {classes: {Decimal}}, {classes: {Long}});
+
+    Price.check({amount: new Decimal("1")});
+    Price.check({amount: new Decimal("1"), total: new Decimal("2")});
+    assertCheckerErrors(Price, {amount: {digits: "1"}}, "value.amount is not an instance of Decimal",
+      {path: "value.amount", message: "is not an instance of Decimal"});
+    assert.throws(() => Price.check({amount: new Decimal("1"), total: new Decimal(2 as any)}),
+      /^value.total is not a IDecimal; value.total.digits is not a string$/);
+    Id.check(new Long());
+    assert.throws(() => Id.check(null), /^value is not an instance of Long$/);
+
+    assert.throws(() => createCheckers(suite, {classes: {Decimal}}), /Unknown class Long/);
+    assert.throws(() => createCheckers({Bad: t.instance("toString")}), /Unknown class toString/);
+  });
+
+  it("should build checkers from types without options", () => {
+    // Options come last and are optional, so code that calls getChecker() directly still works.
+    const fullSuite = Object.assign({}, t.basicTypes, sample);
+    const checker = fullSuite.ICacheItem.getChecker(fullSuite, true, new Set(["extra"]));
+    assert.isTrue(checker({key: "a", value: 1, size: 2, extra: 3}, new NoopContext()));
+    assert.isFalse(checker({key: "a", value: 1, size: 2, other: 3}, new NoopContext()));
+    const converter = t.iface([], {n: "number"}).getConverter(fullSuite, false);
+    assert.deepEqual(converter({n: "1"}), {n: "1"});
+    assert.throws(() => t.instance("Decimal").getChecker(fullSuite, false), /Unknown class Decimal/);
+  });
+
   it("should fail early when suite is missing types", () => {
     assert.throws(() => createCheckers({Invalid: t.name("InvalidName")}),
       "Unknown type InvalidName");
@@ -515,6 +990,72 @@ function suite() {
     assert.throws(() => B.check({join: null, foo: "foo"}), "value.join is not a function");
   });
 
+  it("should support overloaded methods", () => {
+    const {Parser, Parse} = createCheckers({
+      Parser: t.iface([], {
+        parse: t.overloads(
+          t.func("number", t.param("text", "string")),
+          t.func("Date", t.param("year", "number"), t.param("month", "number"), t.param("day", "number", true)),
+        ),
+      }),
+      Parse: t.overloads(t.func("number", t.param("text", "string"))),
+    });
+    Parser.methodArgs("parse").check(["17"]);
+    Parser.methodArgs("parse").check([2020, 1]);
+    Parser.methodArgs("parse").check([2020, 1, 2]);
+    Parser.methodResult("parse").check(17);
+    Parser.methodResult("parse").check(new Date());
+    Parse.getArgs().check(["17"]);
+    Parse.getResult().check(17);
+
+    // Errors are reported for the closest overload.
+    assert.throws(() => Parser.methodArgs("parse").check([2020]),
+      /^value is none of 2 types; value.month is missing$/);
+    assert.throws(() => Parser.methodArgs("parse").check([2020, "1"]),
+      /^value is none of 2 types; value.month is not a number$/);
+    assert.throws(() => Parser.methodResult("parse").check("17"), /^value is none of number, Date$/);
+
+    Parser.check({parse: (a: any, b: any, c: any) => 17});
+    assert.throws(() => Parser.check({parse: null}), /^value.parse is not a function$/);
+
+    // Wrapped calls are checked against the first matching signature, or else the closest one.
+    const parser: any = Parser.wrapObject({parse: (a: any, b?: any) => b === undefined ? Number(a) : b});
+    assert.strictEqual(parser.parse("17"), 17);
+    assert.throws(() => parser.parse(2020, 1), /^value.parse\(\) is not a Date$/);
+    assert.throws(() => parser.parse(2020, "1"), /^value.parse\(month\) is not a number$/);
+    assert.throws(() => parser.parse(2020), /^value.parse\(month\) is missing$/);
+    assert.throws(() => parser.parse(true), /^value.parse\(text\) is not a string$/);
+    const parse = Parse.wrapFunction((text: string) => text);
+    assert.throws(() => parse("17"), /^value.result is not a number$/);
+  });
+
+  it("should check function arity with the checkArity option", () => {
+    const suite = {
+      A: t.func("void", t.param("a", "number"), t.param("b", "string", true)),
+      B: t.iface([], {
+        cb: t.overloads(t.func("void"), t.func("void", t.param("a", "number"), t.param("b", "number"))),
+      }),
+    };
+    const {A, B} = createCheckers(suite, {checkArity: true});
+    A.check((a: number) => undefined);
+    // An optional parameter is implemented as a plain one.
+    A.check((a: number, b?: string) => undefined);
+    A.check(function(a: number, b: string) { return undefined; });
+    assert.throws(() => A.check((a: number, b: string, c: boolean) => undefined),
+      /^value requires 3 arguments, expected at most 2$/);
+    assert.throws(() => A.strictCheck((a: number, b: string, c: boolean) => undefined),
+      /^value requires 3 arguments, expected at most 2$/);
+
+    B.check({cb: (a: number, b: number) => undefined});
+    assert.throws(() => B.check({cb: (a: number, b: number, c: number) => undefined}),
+      /^value.cb requires 3 arguments, expected at most 2$/);
+
+    // Without the option, arity isn't checked, even by strict checks.
+    const plain = createCheckers(suite);
+    plain.A.strictCheck((a: number, b: string, c: boolean) => undefined);
+    plain.B.strictCheck({cb: (a: number, b: number, c: number) => undefined});
+  });
+
   it("should respect inherited interfaces", () => {
     const {Type} = createCheckers({
       Base: t.iface([], {a: "string"}),
@@ -561,6 +1102,69 @@ function suite() {
     assert.throws(() => IndexSignatures.check({}), /data is missing/);
   });
 
+  it("should support index signatures with key types", () => {
+    const {Rows, Mixed, Attrs, Derived, Both, ById, PickRow, Keys} = createCheckers({
+      Row: t.iface([], {id: "number"}),
+      Rows: t.iface([], {}, [t.index("number", "Row")]),
+      Mixed: t.iface([], {length: "number"}, [t.index("number", "string"), t.index("string", t.union("string", "number"))]),
+      Attrs: t.iface([], {id: "string"}, [t.index(t.template("data-", "string"), "string")]),
+      Derived: t.iface(["Attrs"], {name: "string"}),
+      Both: t.intersection("Attrs", t.iface([], {name: "string"})),
+      ById: t.record("number", "Row"),
+      PickRow: t.pick("Rows", "3"),
+      Keys: t.keyof("Attrs"),
+    });
+
+    Rows.check({1: {id: 1}, "-2.5": {id: 2}});
+    assertCheckerErrors(Rows, {1: {id: 1}, foo: {id: 2}}, "value.foo is not a valid key",
+      {path: "value.foo", message: "is not a valid key"});
+    assert.throws(() => Rows.check({1: {id: 1}, "01": {id: 2}}), /^value.01 is not a valid key$/);
+    assert.throws(() => Rows.strictCheck({1: {id: "1"}}), /^value.1 is not a Row; value.1.id is not a number$/);
+
+    // Numeric keys are checked against both signatures.
+    Mixed.check({length: 2, 0: "a", 1: "b", foo: 3});
+    assert.throws(() => Mixed.check({length: 1, 0: 5}), /^value.0 is not a string$/);
+    assert.throws(() => Mixed.check({length: 1, foo: true}), /^value.foo is none of string, number$/);
+    // Declared properties must satisfy a matching index signature too.
+    assert.throws(() => Mixed.check({length: true}),
+      /^value.length is not a number\nvalue.length is none of string, number$/);
+
+    Attrs.strictCheck({id: "x", "data-foo": "1", "data-": ""});
+    assert.throws(() => Attrs.check({id: "x", "data-foo": 1}), /^value.data-foo is not a string$/);
+    assert.throws(() => Attrs.check({id: "x", "aria-label": "a"}), /^value.aria-label is not a valid key$/);
+
+    // Keys declared by a derived interface are valid.
+    Derived.strictCheck({id: "x", name: "y", "data-foo": "1"});
+    assert.throws(() => Derived.check({id: "x", name: "y", other: "1"}),
+      /^value.other is not a valid key$/);
+    Both.strictCheck({id: "x", name: "y", "data-foo": "1"});
+    assert.throws(() => Both.strictCheck({id: "x", name: "y", other: "1"}),
+      /^value is not a Attrs; value.other is not a valid key\nvalue.other is extraneous$/);
+
+    ById.check({7: {id: 7}});
+    assert.throws(() => ById.check({x: {id: 7}}), /^value.x is not a valid key$/);
+    PickRow.strictCheck({3: {id: 3}});
+    assert.throws(() => PickRow.check({}), /^value.3 is missing$/);
+    Keys.check("id");
+    Keys.check("data-x");
+    assert.throws(() => Keys.check("foo"), /^value is not a keyof Attrs$/);
+
+    assert.deepEqual(createCheckers({N: t.iface([], {}, [t.index("number", "number")])}).N.coerce({1: "2", 2: 3}),
+      {1: 2, 2: 3});
+    assert.deepEqual(createCheckers({A: t.iface([], {id: "string"}, [t.index(t.template("data-", "string"), "any")])})
+      .A.strip({"id": "x", "data-a": 1, "b": 2}), {"id": "x", "data-a": 1});
+
+    // The string index signature is available as indexType, and may be given to TIface directly.
+    const mixed = t.iface([], {}, [t.index("number", "Row"), t.index("string", "number")]);
+    assert.strictEqual((mixed.indexType as t.TName).name, "number");
+    assert.isUndefined(t.iface([], {}, [t.index("number", "Row")]).indexType);
+    const {Direct} = createCheckers({Direct: new t.TIface([], [new t.TProp("id", t.name("string"), false)],
+      t.union("string", "number"), [t.index("number", "number")])});
+    Direct.check({id: "x", 1: 1, foo: "y"});
+    assert.throws(() => Direct.check({id: "x", 1: "y"}), /^value.1 is not a number$/);
+    assert.throws(() => Direct.check({id: "x", foo: true}), /^value.foo is none of string, number$/);
+  });
+
   it('should support recursive interfaces', () => {
     const {FormConfig} = createCheckers(recursiveTI);
     FormConfig.check({});
@@ -580,6 +1184,95 @@ function suite() {
     checkers.Baz.strictCheck({nested: {foo: 'foo', nested: {foo: 'foo2'}}});
   });
 
+  it("should support data with circular references", () => {
+    const {FormConfig} = createCheckers(recursiveTI);
+    const form: any = {children: []};
+    form.children.push(form);
+    FormConfig.check(form);
+    FormConfig.strictCheck(form);
+    assert.isNull(FormConfig.validate(form));
+
+    // Errors anywhere in the cycle are still reported.
+    const child: any = {children: [form]};
+    form.children.push(child, {children: "x"});
+    assert.throws(() => FormConfig.check(form),
+      /^value.children\[2\] is not a FormConfig; value.children\[2\].children is not an array$/);
+    form.children.pop();
+    FormConfig.check(form);
+
+    // Mutually recursive types, with the cycle going through both.
+    const {Person} = createCheckers({
+      Person: t.iface([], {name: "string", pets: t.array("Pet")}),
+      Pet: t.iface([], {name: "string", owner: "Person"}),
+    });
+    const person: any = {name: "Alice", pets: []};
+    const pet: any = {name: "Rex", owner: person};
+    person.pets.push(pet);
+    Person.check(person);
+    pet.owner = {name: "Bob", pets: [pet]};
+    Person.check(person);
+    pet.name = 17;
+    assert.throws(() => Person.check(person), /^value.pets\[0\] is not a Pet; value.pets\[0\].name is not a string$/);
+  });
+
+  it("should report circular references when disallowed", () => {
+    const {FormConfig} = createCheckers(recursiveTI);
+    FormConfig.setAllowCircular(false);
+    const form: any = {children: [{children: []}]};
+    FormConfig.check(form);
+    form.children[0].children.push(form.children[0]);
+    assert.isFalse(FormConfig.test(form));
+    assert.throws(() => FormConfig.check(form),
+      /^value.children\[0\] is not a FormConfig; value.children\[0\].children\[0\] is a circular reference to value.children\[0\]$/);
+    assert.deepEqual(FormConfig.validate(form), [{
+      path: "value.children[0]", message: "is not a FormConfig",
+      nested: [{
+        path: "value.children[0].children[0]",
+        message: "is a circular reference to value.children[0]",
+      }],
+    }]);
+    form.children[0].children[0] = form;
+    assert.throws(() => FormConfig.check(form),
+      /^value.children\[0\] is not a FormConfig; value.children\[0\].children\[0\] is a circular reference to value$/);
+
+    // Data that repeats a value without a cycle is fine.
+    const leaf = {children: []};
+    FormConfig.check({children: [leaf, leaf, {children: [leaf]}]});
+  });
+
+  it("should report circular references when converting values", () => {
+    const {A} = createCheckers({
+      A: t.iface([], {n: "number", b: t.opt("B")}),
+      B: t.iface([], {a: t.opt("A")}),
+    });
+    const a: any = {n: "1", b: {}};
+    a.b.a = a;
+    assert.isFalse(A.test(a));
+    a.n = 1;
+    A.check(a);
+    const message = "value.b is not a B; value.b.a is not a A; value.b.a.b is a circular reference to value.b";
+    for (const convert of [A.coerce, A.strip, A.applyDefaults]) {
+      assert.throws(() => convert.call(A, a), message);
+    }
+    A.setAllowCircular(false);
+    assert.throws(() => A.check(a), message);
+
+    // Recursive generic types too, and values that repeat without a cycle are still converted.
+    const {List} = createCheckers({
+      List: t.generic(["T"], t.iface([], {value: "T", next: t.opt(t.name("List", ["T"]))})),
+    });
+    const list: any = {value: 1};
+    list.next = list;
+    assert.throws(() => List.coerce(list), /value.next is a circular reference to value$/);
+    const {Numbers} = createCheckers({
+      List: t.generic(["T"], t.iface([], {value: "T", next: t.opt(t.name("List", ["T"]))})),
+      Numbers: t.iface([], {first: t.name("List", ["number"]), second: t.name("List", ["number"])}),
+    });
+    const shared = {value: "2"};
+    assert.deepEqual(Numbers.coerce({first: shared, second: {value: "1", next: shared}}),
+      {first: {value: 2}, second: {value: 1, next: {value: 2}}});
+  });
+
   it("should check method calls as in README docs", () => {
     const {Greeter} = createCheckers(greetTI);
 
@@ -591,6 +1284,195 @@ function suite() {
     assert.throws(() => Greeter.methodResult("greet").check(null), /value is not a string/);
   });
 
+  it("should wrap functions to check arguments and results", async () => {
+    const {Greet, Fetch} = createCheckers({
+      Greet: t.func("string", t.param("name", "string"), t.param("times", "number", true)),
+      Fetch: t.func(t.promise(t.iface([], {name: "string"})), t.param("id", "number")),
+    });
+    Greet.setReportedPath("greet");
+    const greet: (...args: any[]) => any = Greet.wrapFunction((name: any) => name === "Bob" ? 17 : `Hello, ${name}`);
+    assert.equal(greet("Alice"), "Hello, Alice");
+    assert.equal(greet("Alice", 2), "Hello, Alice");
+    assert.throws(() => greet(17), /^greet.args.name is not a string$/);
+    assert.throws(() => greet(), /^greet.args.name is missing$/);
+    assert.throws(() => greet("Alice", "twice"), /^greet.args.times is not a number$/);
+    assert.throws(() => greet("Bob"), /^greet.result is not a string$/);
+
+    // "this" is passed through to the wrapped function.
+    const obj = {prefix: "Hi, ", greet: Greet.wrapFunction(function(this: any, name: string) {
+      return this.prefix + name;
+    })};
+    assert.equal(obj.greet("Alice"), "Hi, Alice");
+
+    const fetch: (...args: any[]) => Promise<any> = Fetch.wrapFunction((id: number) =>
+      Promise.resolve(id === 1 ? {name: "Alice"} : {name: id}));
+    assert.deepEqual(await fetch(1), {name: "Alice"});
+    await assertRejects(fetch(2), /^\(await value.result\).name is not a string$/);
+    assert.throws(() => fetch("1"), /^value.args.id is not a number$/);
+
+    assert.throws(() => Greet.wrapFunction("greet" as any), /^greet is not a function$/);
+    assert.throws(() => createCheckers(greetTI).Greeter.wrapFunction(() => null), /applied to non-function/);
+  });
+
+  it("should wrap objects to check properties and method calls", async () => {
+    const {ILRUCache} = createCheckers({
+      Item: t.iface([], {key: "string", size: "number"}),
+      ILRUCache: t.iface([], {
+        capacity: "number",
+        label: t.opt("string"),
+        set: t.func("void", t.param("item", "Item"), t.param("ttl", "number", true)),
+        get: t.func(t.union("Item", "null"), t.param("key", "string")),
+        load: t.func(t.promise("Item"), t.param("key", "string")),
+      }),
+    });
+    ILRUCache.setReportedPath("ILRUCache");
+    class LRUCache {
+      public capacity: any = 10;
+      public other = "not checked";
+      private _items = new Map<string, any>();
+      public set(item: any) { this._items.set(item.key, item); }
+      public get(key: string) { return this._items.get(key) || null; }
+      public load(key: string) { return Promise.resolve(this._items.get(key)); }
+    }
+    const impl = new LRUCache();
+    const cache: any = ILRUCache.wrapObject(impl);
+    assert.equal(cache.capacity, 10);
+    assert.equal(cache.label, undefined);
+    assert.equal(cache.other, "not checked");
+    cache.set({key: "a", size: 1});
+    cache.set({key: "b", size: 2}, 1000);
+    assert.deepEqual(cache.get("a"), {key: "a", size: 1});
+    assert.strictEqual(cache.get, cache.get);
+    assert.throws(() => cache.set({key: "a", size: "big"}),
+      /^ILRUCache.set\(item\) is not a Item; ILRUCache.set\(item\).size is not a number$/);
+    assert.throws(() => cache.set(), /^ILRUCache.set\(item\) is missing$/);
+    assert.throws(() => cache.set({key: "a", size: 1}, "soon"), /^ILRUCache.set\(ttl\) is not a number$/);
+    assert.throws(() => cache.get(1), /^ILRUCache.get\(key\) is not a string$/);
+
+    impl.set({key: "c", size: "big"});
+    assert.throws(() => cache.get("c"), /^ILRUCache.get\(\) is none of Item, null; .*size is not a number$/);
+    await assertRejects(cache.load("c"), /^\(await ILRUCache.load\(\)\) is not a Item; .*size is not a number$/);
+    impl.capacity = "ten";
+    assert.throws(() => cache.capacity, /^ILRUCache.capacity is not a number$/);
+
+    // Failures may be logged or ignored instead.
+    const errors: string[] = [];
+    const logged: any = ILRUCache.wrapObject(impl, {onFail: (e) => errors.push(e.message)});
+    assert.equal(logged.capacity, "ten");
+    assert.deepEqual(logged.get("c"), {key: "c", size: "big"});
+    assert.deepEqual(await logged.load("c"), {key: "c", size: "big"});
+    assert.deepEqual(errors.map((e) => e.split(";")[0]), [
+      "ILRUCache.capacity is not a number",
+      "ILRUCache.get() is none of Item, null",
+      "(await ILRUCache.load()) is not a Item",
+    ]);
+    const passed: any = ILRUCache.wrapObject(impl, {onFail: "pass"});
+    assert.equal(passed.capacity, "ten");
+    passed.set({key: "d"});
+
+    assert.throws(() => createCheckers(greetTI).Greeter.getProp("greet").wrapObject({}), /non-interface/);
+  });
+
+  it("should guard values against changes that violate the type", () => {
+    const {State} = createCheckers(shapes, {
+      Item: t.iface([], {key: "string", size: "number"}),
+      State: t.iface([], {
+        name: "string",
+        note: t.opt("string"),
+        items: t.array("Item"),
+        counts: t.iface([], {[t.indexKey]: "number"}),
+        shape: "Shape",
+        pair: t.tuple("string", "number"),
+      }),
+    });
+    const raw: any = {
+      name: "a", items: [{key: "x", size: 1}], counts: {x: 1},
+      shape: {kind: "square", size: 1}, pair: ["a", 1],
+    };
+    const state = State.guard(raw);
+
+    state.name = "b";
+    state.note = "note";
+    delete state.note;
+    state.items.push({key: "y", size: 2});
+    state.items[0].size = 10;
+    state.items.splice(0, 1);
+    state.counts.y = 2;
+    delete state.counts.x;
+    state.shape.size = 2;
+    state.shape = {kind: "circle", radius: 1};
+    state.shape.radius = 3;
+    state.pair[0] = "b";
+    assert.deepEqual(raw, {
+      name: "b", items: [{key: "y", size: 2}], counts: {y: 2},
+      shape: {kind: "circle", radius: 3}, pair: ["b", 1],
+    });
+    // Guarded values may be assigned elsewhere without nesting proxies.
+    state.items[1] = state.items[0];
+    assert.strictEqual(raw.items[1], raw.items[0]);
+
+    assert.throws(() => { state.name = 1; }, /^value.name is not a string$/);
+    assert.throws(() => { delete state.name; }, /^value.name is missing$/);
+    assert.throws(() => state.items.push({key: "z"}), /^value.items\[2\] is not a Item; .*size is missing$/);
+    assert.throws(() => { state.items[0].size = "big"; }, /^value.items\[0\].size is not a number$/);
+    assert.throws(() => { delete state.items[0].key; },
+      /^value.items\[0\] is not a Item; value.items\[0\].key is missing$/);
+    assert.throws(() => { state.counts.z = "many"; }, /^value.counts.z is not a number$/);
+    assert.throws(() => { state.shape.radius = "big"; },
+      /^value.shape is not a Shape; value.shape is none of Square, Rectangle, Circle; .*radius is not a number$/);
+    assert.throws(() => { state.pair[1] = "b"; }, /^value.pair\[1\] is not a number$/);
+    assert.throws(() => State.guard({name: 1}), /^value.name is not a string\n/);
+    assert.deepEqual(raw, {
+      name: "b", items: [{key: "y", size: 2}, {key: "y", size: 2}], counts: {y: 2},
+      shape: {kind: "circle", radius: 3}, pair: ["b", 1],
+    });
+  });
+
+  it("should guard arrays in optional and union types", () => {
+    const {Tags} = createCheckers({
+      Tags: t.iface([], {
+        tags: t.opt(t.array("string")),
+        names: t.union(t.array("string"), "null"),
+        pair: t.tuple("string", "number"),
+      }),
+    });
+    const raw: any = {tags: ["a", "b", "c"], names: ["x", "y", "z"], pair: ["a", 1]};
+    const value = Tags.guard(raw);
+
+    value.tags.splice(0, 1);
+    value.names.shift();
+    value.tags.unshift("z");
+    assert.strictEqual(value.names.reverse(), value.names);
+    assert.deepEqual(raw, {tags: ["z", "b", "c"], names: ["z", "y"], pair: ["a", 1]});
+
+    // Invalid changes through array methods leave arrays unchanged.
+    assert.throws(() => value.tags.splice(1, 1, 1), /^value.tags\[1\] is not a string$/);
+    assert.throws(() => value.names.push("w", 2), /^value.names\[3\] is not a string$/);
+    assert.throws(() => { value.tags[1] = 2; }, /^value.tags\[1\] is not a string$/);
+    assert.throws(() => { delete value.names[0]; }, /value.names\[0\] is not a string/);
+    assert.throws(() => value.pair.reverse(), /^value.pair\[0\] is not a string/);
+    assert.deepEqual(raw, {tags: ["z", "b", "c"], names: ["z", "y"], pair: ["a", 1]});
+  });
+
+  it("should guard properties defined with Object.defineProperty()", () => {
+    const {Item} = createCheckers({
+      Item: t.iface([], {name: "string", tags: t.array("string"), note: t.opt("string")}),
+    });
+    const raw: any = {name: "a", tags: ["x"]};
+    const item = Item.guard(raw);
+
+    Object.defineProperty(item, "name", {value: "b"});
+    Object.defineProperty(item.tags, "1", {value: "y", writable: true, enumerable: true, configurable: true});
+    Object.defineProperty(item, "name", {enumerable: true});
+    Object.defineProperty(item, "note", {get: () => "n", enumerable: true, configurable: true});
+    assert.deepEqual(raw, {name: "b", tags: ["x", "y"], note: "n"});
+
+    assert.throws(() => Object.defineProperty(item, "name", {value: 5}), /^value.name is not a string$/);
+    assert.throws(() => Object.defineProperty(item.tags, "0", {value: 1}), /^value.tags\[0\] is not a string$/);
+    assert.throws(() => Object.defineProperty(item, "note", {get: () => 1}), /^value.note is not a string$/);
+    assert.deepEqual(raw, {name: "b", tags: ["x", "y"], note: "n"});
+  });
+
   it("should make type available", () => {
     const {Greeter} = createCheckers(greetTI);
     assert.instanceOf(Greeter.getType(), t.TIface);
@@ -780,6 +1662,167 @@ function suite() {
     assert.throws(() => UnionWithUnnamedArray.check([undefined]), "value is none of string[], number[], 1 more; value[0] is none of string, boolean");
   });
 
+  it("should coerce strings to required types", () => {
+    const {Query, Dated, Flags, Counts} = createCheckers(sample, {
+      Query: t.iface([], {
+        page: "number",
+        verbose: t.opt("boolean"),
+        dir: "Direction",
+        dirStr: "DirectionStr",
+        left: t.enumlit("Direction", "Left"),
+        limit: t.union(t.lit(10), t.lit(50)),
+        ids: t.array("number"),
+        pair: t.tuple("string", "number", t.rest(t.array("boolean"))),
+      }),
+      Counts: t.iface([], {total: "string", [t.indexKey]: t.union("number", "string")}),
+      Dated: t.intersection(t.iface([], {at: "Date"}), t.iface([], {count: "NumberAlias"})),
+      Flags: t.array(t.union("boolean", "number", "string")),
+    });
+
+    const query = {
+      page: "3", dir: "17", dirStr: "UP", left: "17", limit: "50", ids: ["1", "2.5"],
+      pair: ["1", "2", "true", "false"],
+    };
+    assert.deepEqual(Query.coerce(query), {
+      page: 3, dir: 17, dirStr: "UP", left: 17, limit: 50, ids: [1, 2.5],
+      pair: ["1", 2, true, false],
+    });
+    // The input is left unchanged.
+    assert.equal(query.page, "3");
+    assert.deepEqual(Query.coerce({...query, verbose: "false"}).verbose, false);
+
+    // Index signatures apply to properties not declared explicitly.
+    assert.deepEqual(Counts.coerce({total: "5", a: "4", b: "x"}), {total: "5", a: 4, b: "x"});
+
+    // Unconvertible values are reported at their paths.
+    assert.throws(() => Query.coerce({...query, page: "three"}), /^value.page is not a number$/);
+    assert.throws(() => Query.coerce({...query, page: ""}), /^value.page is not a number$/);
+    assert.throws(() => Query.coerce({...query, verbose: "yes"}), /^value.verbose is not a boolean$/);
+    assert.throws(() => Query.coerce({...query, dir: "Left"}), /^value.dir is not a Direction; value.dir is not a valid enum value$/);
+    assert.throws(() => Query.coerce({...query, left: "18"}), /^value.left is not Direction.Left$/);
+    assert.throws(() => Query.coerce({...query, ids: ["1", "x"]}), /^value.ids\[1\] is not a number$/);
+    assert.throws(() => Query.coerce({...query, pair: ["1", "2", "maybe"]}), /^value.pair\[2\] is not a boolean$/);
+
+    const at = "2020-03-15T00:00:00.000Z";
+    const dated = Dated.coerce({at, count: "5"});
+    assert.instanceOf(dated.at, Date);
+    assert.equal(dated.at.toISOString(), at);
+    assert.equal(dated.count, 5);
+    assert.throws(() => Dated.coerce({at: "bad", count: "5"}), /value.at is not a Date/);
+
+    // Union members are tried in order.
+    assert.deepEqual(Flags.coerce(["true", "1", "x", 2]), [true, 1, "x", 2]);
+
+    // Strict coercion checks the result strictly.
+    assert.throws(() => Dated.strictCoerce({at, count: "5", extra: 1}), /value.extra is extraneous/);
+    assert.deepEqual(Dated.strictCoerce({at, count: "5"}).count, 5);
+  });
+
+  it("should strip extraneous properties", () => {
+    const {ICacheItem, ISampling} = createCheckers(sample);
+    const item = {key: "foo", value: {a: 1}, size: 17, extra: "baz"};
+    const stripped = ICacheItem.strip(item);
+    assert.deepEqual(stripped, {key: "foo", value: {a: 1}, size: 17});
+    assert.deepEqual(item.extra, "baz");
+    ICacheItem.strictCheck(stripped);
+    assert.throws(() => ICacheItem.strip({value: 1, size: 17}), /^value.key is missing$/);
+
+    // Inherited properties are kept, and nested objects and tuples get stripped too.
+    const sampling = ISampling.strip({
+      key: "foo", value: 1, size: 17, extra: 1,
+      xstring: "x", xstring2: "y", xany: {z: 1}, xnumber: 1, xNumberAlias: 2, xNumberAlias2: 3,
+      xnull: null, xMyType: true, xarray: [], xarray2: [], xtuple: ["a", 1, "extra"],
+      xopttuple: ["a"], xunion: null, xparen: "x", xiface: {foo: "a", bar: 1, baz: 2},
+      xliteral: 3, xfunc: noop, xfunc2: noop, xDirection: 1, xDirectionStr: "UP", xDirUp: 1,
+      xDirStrLeft: "LEFT", ximplicit: 1, ximplicitFunc: noop, ximplicitFunc2: noop,
+    });
+    assert.equal(sampling.key, "foo");
+    assert.notProperty(sampling, "extra");
+    assert.deepEqual(sampling.xany, {z: 1});
+    assert.deepEqual(sampling.xtuple, ["a", 1]);
+    assert.deepEqual(sampling.xiface, {foo: "a", bar: 1});
+    ISampling.strictCheck(sampling);
+  });
+
+  it("should strip according to unions, intersections and index signatures", () => {
+    const {Shape} = createCheckers(shapes);
+    assert.deepEqual(Shape.strip({kind: "circle", radius: 1, size: 2}), {kind: "circle", radius: 1});
+    assert.deepEqual(Shape.strip({kind: "square", radius: 1, size: 2}), {kind: "square", size: 2});
+
+    const {Car, SameKeyIntersection, Tuples} = createCheckers(intersectionTI);
+    assert.deepEqual(Car.strip({numDoors: 2, numWheels: 4, foo: 1}), {numDoors: 2, numWheels: 4});
+    assert.deepEqual(SameKeyIntersection.strip({x: {foo: "a", bar: 1, baz: 2}, y: 1}),
+      {x: {foo: "a", bar: 1}});
+    assert.deepEqual(Tuples.strip(["a", "b", "c"]), ["a", "b"]);
+
+    const {SquareConfig, IndexSignatures} = createCheckers(indexSignaturesTI);
+    assert.deepEqual(SquareConfig.strip({color: "blue", foo: 1}), {color: "blue", foo: 1});
+    assert.deepEqual(IndexSignatures.strip({data: {a: [1]}, other: 1}), {data: {a: [1]}});
+
+    const {Type} = createCheckers({
+      Type: t.iface([], {
+        tuple: t.tuple("string", t.rest(t.array(t.iface([], {a: "number"})))),
+        date: "Date",
+      }),
+    });
+    const date = new Date(2020, 1, 1);
+    assert.deepEqual(Type.strip({tuple: ["x", {a: 1, b: 2}, {a: 2}], date}),
+      {tuple: ["x", {a: 1}, {a: 2}], date});
+    assert.strictEqual(Type.strip({tuple: ["x"], date}).date, date);
+  });
+
+  it("should apply default values", () => {
+    const {Config} = createCheckers({
+      Timeouts: t.iface([], {
+        connect: t.opt("number", {default: 5}),
+        read: t.opt("number"),
+      }),
+      Config: t.iface(["Base"], {
+        name: "string",
+        timeout: t.opt("number", {default: 30}),
+        tags: t.opt(t.array("string"), {default: []}),
+        timeouts: t.opt("Timeouts", {default: {}}),
+        servers: t.opt(t.array(t.iface([], {host: "string", port: t.opt("number", {default: 80})}))),
+        pair: t.opt(t.tuple("string", t.opt("number", {default: 0}))),
+        nothing: t.opt("null", {default: null}),
+      }),
+      Base: t.iface([], {
+        verbose: t.opt("boolean", {default: false}),
+      }),
+    });
+
+    const config = Config.applyDefaults({name: "foo"});
+    assert.deepEqual(config, {
+      name: "foo", timeout: 30, tags: [], timeouts: {connect: 5}, verbose: false, nothing: null,
+    });
+    // Default objects are copied.
+    config.tags.push("bar");
+    assert.deepEqual(Config.applyDefaults({name: "foo"}).tags, []);
+
+    assert.deepEqual(Config.applyDefaults({
+      name: "foo", timeout: 10, timeouts: {read: 1}, verbose: true, extra: 1,
+      servers: [{host: "a"}, {host: "b", port: 8080}], pair: ["x"],
+    }), {
+      name: "foo", timeout: 10, tags: [], timeouts: {connect: 5, read: 1}, verbose: true, extra: 1,
+      servers: [{host: "a", port: 80}, {host: "b", port: 8080}], pair: ["x", 0], nothing: null,
+    });
+
+    assert.throws(() => Config.applyDefaults({}), /^value.name is missing$/);
+    assert.throws(() => Config.applyDefaults({name: "foo", timeouts: {connect: "x"}}),
+      /^value.timeouts is not a Timeouts; value.timeouts.connect is not a number$/);
+  });
+
+  it("should coerce recursive types", () => {
+    const {FormConfig} = createCheckers(recursiveTI);
+    assert.deepEqual(FormConfig.coerce({children: [{children: []}]}), {children: [{children: []}]});
+    const {Tree} = createCheckers({
+      Tree: t.iface([], {value: "number", children: t.opt(t.array("Tree"))}),
+    });
+    assert.deepEqual(Tree.coerce({value: "1", children: [{value: "2"}]}), {value: 1, children: [{value: 2}]});
+    assert.throws(() => Tree.coerce({value: "1", children: [{value: "x"}]}),
+      /value.children\[0\] is not a Tree; value.children\[0\].value is not a number/);
+  });
+
 };
 
 
@@ -811,3 +1854,16 @@ const assertCheckerErrors = (checker: Checker, value: any, message: string, ...e
   assert.throws(() => checker.check(value), dedent(message));
   assert.isFalse(checker.test(value));
 }
+
+/**
+ * Assert that the given promise is rejected with an error whose message matches the given regexp.
+ */
+const assertRejects = async (promise: Promise<any>, regexp: RegExp): Promise<void> => {
+  try {
+    await promise;
+  } catch (e) {
+    assert.match(e.message, regexp);
+    return;
+  }
+  assert.fail("expected promise to be rejected");
+}
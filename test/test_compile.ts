@@ -0,0 +1,104 @@
+import {assert} from "chai";
+import {getCompiledSource} from "../lib/compile";
+import {createCheckers} from "../lib";
+import * as t from "../lib/types";
+import enumUnionTI from "./fixtures/enum-union-ti";
+import greetTI from "./fixtures/greet-ti";
+import indexSignaturesTI from "./fixtures/index-signatures-ti";
+import intersectionTI from "./fixtures/intersection-ti";
+import recursiveTI from "./fixtures/recursive-ti";
+import sample from "./fixtures/sample-ti";
+import shapes from "./fixtures/shapes-ti";
+
+// Asserts that compiled checkers for each type in the suite give the same results and errors as
+// interpreted ones for each of the values.
+function assertSameResults(suite: t.ITypeSuite, values: any[]) {
+  const interpreted = createCheckers(suite);
+  const compiled = createCheckers(suite, {compile: true});
+  for (const name of Object.keys(suite)) {
+    for (const value of values) {
+      const message = `${name} for ${JSON.stringify(value)}`;
+      assert.strictEqual(compiled[name].test(value), interpreted[name].test(value), message);
+      assert.strictEqual(compiled[name].strictTest(value), interpreted[name].strictTest(value), message);
+      assert.deepEqual(compiled[name].validate(value), interpreted[name].validate(value), message);
+      assert.deepEqual(compiled[name].strictValidate(value), interpreted[name].strictValidate(value), message);
+    }
+  }
+}
+
+const commonValues = [undefined, null, true, 0, 1, 17, "", "foo", "UP", [], [1, 2], ["a", null], {}, new Date()];
+
+describe("compile", () => {
+  it("should give the same results as interpreted checkers", () => {
+    assertSameResults(sample, [...commonValues,
+      {key: "foo", value: {}, size: 17}, {key: "foo", value: {}, size: 17, tag: "baz", extra: 1},
+      {key: "foo", size: "17"}, {capacity: 1, set: () => true, get: (k: string) => k}]);
+    assertSameResults(shapes, [...commonValues,
+      {kind: "square", size: 1}, {kind: "circle", radius: "1"}, {kind: "oval"}, {kind: "rectangle", width: 1,
+        height: 2, color: "red"}]);
+    assertSameResults(greetTI, [...commonValues, {greet: (name: string) => name}, {greet: "hi"}]);
+    assertSameResults(enumUnionTI, [...commonValues, {type: "a"}, {kind: 1}]);
+    assertSameResults(indexSignaturesTI, [...commonValues,
+      {color: "red", width: 1, other: true}, {data: {1: [1], 2: ["a"]}}]);
+    assertSameResults(intersectionTI, [...commonValues,
+      {numWheels: 4, numDoors: 2}, {numWheels: 4, numDoors: 2, extra: 1}, {numDoors: 1, numRooms: 3},
+      {x: {foo: "a", bar: 1}}, {x: {foo: "a", bar: 1, baz: 2}}, 2, ["a", "b"]]);
+    assertSameResults(recursiveTI, [...commonValues,
+      {children: [{children: []}, {}]}, {children: [{children: 1}]}, {children: [{}], other: 1}]);
+    assertSameResults({
+      Base: t.iface([], {id: "number"}),
+      Item: t.iface(["Base"], {
+        name: t.opt(t.union("string", "null")),
+        count: t.refine(t.intersection(t.integer(), t.range(0, 10)), (v) => v % 2 === 0, "is odd"),
+        tags: t.array(t.union(t.lit("a"), t.lit(-1), t.lit(NaN))),
+        dir: t.enumlit("Direction", "Up"),
+        any: "unknown",
+        when: t.opt("Date"),
+        pair: t.opt(t.tuple("string", "number")),
+        list: t.opt(t.name("List", ["number"])),
+      }),
+      Direction: t.enumtype({Up: "UP", Down: "DOWN"}),
+      Dirs: t.array("Direction"),
+      List: t.generic(["T"], t.iface([], {value: "T", next: t.opt(t.name("List", ["T"]))})),
+      Void: t.name("void"),
+    }, [...commonValues,
+      {id: 1, count: 2, tags: ["a", -1], dir: "UP"}, {id: 1, count: 3, tags: [], dir: "UP"},
+      {id: 1, count: 2, tags: [NaN], dir: "DOWN", extra: 1}, {count: 2, tags: ["b"], dir: "UP"},
+      {id: 1, count: 2, tags: [], dir: "UP", when: new Date(), pair: ["a", 1], list: {value: 1, next: {value: 2}}},
+      {id: 1, count: 2, tags: [], dir: "UP", pair: ["a", "b"], list: {value: 1, next: {value: "2"}}},
+      ["UP", "DOWN"], ["UP", "LEFT"]]);
+  });
+
+  it("should handle circular references like interpreted checkers", () => {
+    const suite = {
+      Node: t.iface([], {name: "string", next: t.opt("Node"), items: t.opt(t.array("Node"))}),
+    };
+    const node: any = {name: "a", next: {name: "b"}};
+    node.next.next = node;
+    node.items = [node, {name: "c", items: [node.next]}];
+    const bad: any = {name: "a", items: [{name: 1}]};
+    bad.next = bad;
+    for (const compile of [false, true]) {
+      const {Node} = createCheckers(suite, {compile});
+      Node.check(node);
+      assert.isFalse(Node.test(bad));
+      Node.setAllowCircular(false);
+      assert.isFalse(Node.test(node));
+      assert.throws(() => Node.check(node), /value.next.next is a circular reference to value/);
+    }
+  });
+
+  it("should generate specialized code", () => {
+    const suite = Object.assign({}, t.basicTypes, shapes);
+    const source = getCompiledSource(shapes.Shape, suite, true, {});
+    assert.include(source, `p = v["kind"];`);
+    assert.include(source, `if (p === undefined) { return false; } else if (!(p === "square")) { return false; }`);
+    assert.include(source, `(typeof p === "number")`);
+    assert.notInclude(source, `ctx.createContext()`);
+
+    const {Shape} = createCheckers(shapes, {compile: true});
+    Shape.check({kind: "circle", radius: 1});
+    assert.throws(() => Shape.check({kind: "square", size: "1"}),
+      /^value is none of Square, Rectangle, Circle; value is not a Square; value.size is not a number$/);
+  });
+});
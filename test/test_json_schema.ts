@@ -0,0 +1,263 @@
+import {assert} from "chai";
+import {createCheckers, jsonSchemaToSuite, suiteToJSONSchema, typeToJSONSchema} from "../lib";
+import * as t from "../lib/types";
+import shapes from "./fixtures/shapes-ti";
+
+const dialect = "https://json-schema.org/draft/2020-12/schema";
+
+describe("json-schema", () => {
+  it("should convert a suite to definitions", () => {
+    assert.deepEqual(suiteToJSONSchema(shapes), {
+      $schema: dialect,
+      $defs: {
+        Square: {type: "object", properties: {kind: {const: "square"}, size: {type: "number"}},
+          required: ["kind", "size"]},
+        Rectangle: {type: "object",
+          properties: {kind: {const: "rectangle"}, width: {type: "number"}, height: {type: "number"}},
+          required: ["kind", "width", "height"]},
+        Circle: {type: "object", properties: {kind: {const: "circle"}, radius: {type: "number"}},
+          required: ["kind", "radius"]},
+        Shape: {anyOf: [{$ref: "#/$defs/Square"}, {$ref: "#/$defs/Rectangle"}, {$ref: "#/$defs/Circle"}]},
+      },
+    });
+  });
+
+  it("should convert interfaces", () => {
+    const suite = {
+      Base: t.iface([], {id: "string"}),
+      Item: t.iface(["Base"], {
+        count: t.opt("number", {default: 0}),
+        tags: t.array("string"),
+        color: t.union(t.lit("red"), t.lit("green")),
+        created: "Date",
+        next: t.opt("Item"),
+        update: t.func("void"),
+      }),
+      Counts: t.iface([], {total: "number", [t.indexKey]: "number"}, [
+        t.index(t.template("tag_", "string"), "string"),
+        t.index("number", "boolean"),
+      ]),
+    };
+    const item = {type: "object",
+      properties: {
+        count: {type: "number", default: 0},
+        tags: {type: "array", items: {type: "string"}},
+        color: {enum: ["red", "green"]},
+        created: {type: "string", format: "date-time"},
+        next: {$ref: "#/$defs/Item"},
+      },
+      required: ["tags", "color", "created"],
+    };
+    assert.deepEqual(suiteToJSONSchema(suite).$defs, {
+      Base: {type: "object", properties: {id: {type: "string"}}, required: ["id"]},
+      Item: {allOf: [{$ref: "#/$defs/Base"}, item]},
+      Counts: {type: "object", properties: {total: {type: "number"}}, required: ["total"],
+        patternProperties: {
+          "^tag_.*$": {type: "string"},
+          "^-?(?:\\d+\\.?\\d*|\\.\\d+)(?:[eE][+-]?\\d+)?$": {type: "boolean"},
+        },
+        additionalProperties: {type: "number"},
+      },
+    });
+
+    // In strict mode, bases are included, to disallow other properties.
+    assert.deepEqual(suiteToJSONSchema(suite, {strict: true}).$defs.Item, {
+      type: "object",
+      properties: {id: {type: "string"}, ...item.properties},
+      required: ["id", ...item.required],
+      additionalProperties: false,
+    });
+  });
+
+  it("should merge the interfaces of intersections in strict mode", () => {
+    const suite = {
+      Named: t.iface([], {name: "string"}),
+      Sized: t.iface([], {size: "number", name: t.union("string", "null")}),
+      Item: t.intersection("Named", t.intersection("Sized", t.iface([], {tag: t.opt("string")})),
+        t.refine("object", () => true, "is invalid")),
+    };
+    const schema = suiteToJSONSchema(suite, {strict: true});
+    assert.deepEqual(schema.$defs.Item, {allOf: [{
+      type: "object",
+      properties: {
+        name: {allOf: [{type: "string"}, {anyOf: [{type: "string"}, {type: "null"}]}]},
+        size: {type: "number"},
+        tag: {type: "string"},
+      },
+      required: ["name", "size"],
+      additionalProperties: false,
+    }, {type: ["object", "array"]}]});
+    assert.deepEqual(suiteToJSONSchema(suite).$defs.Item.allOf.slice(0, 1), [{$ref: "#/$defs/Named"}]);
+
+    // Values with properties of several members satisfy the schema, as they do strictCheck().
+    const {Item} = createCheckers(jsonSchemaToSuite(schema));
+    Item.strictCheck({name: "a", size: 1, tag: "x"});
+    assert.throws(() => Item.strictCheck({name: "a", size: 1, other: 1}), /value.other is extraneous/);
+  });
+
+  it("should convert tuples, enums and constraints", () => {
+    const suite = {
+      Direction: t.enumtype({Up: "UP", Down: "DOWN"}),
+      Pair: t.tuple("string", t.opt("number")),
+      Row: t.tuple("string", t.rest(t.array("number"))),
+      Ends: t.tuple(t.rest(t.array("number")), "string"),
+      Flags: t.tuple("string", t.opt("number"), t.rest(t.array("boolean"))),
+      Percent: t.intersection(t.integer(), t.range(0, 100)),
+      Code: t.intersection("string", t.length(3, 3), t.pattern(/^[A-Z]+$/), t.format("email")),
+      Up: t.enumlit("Direction", "Up"),
+      Key: t.keyof("Pair"),
+    };
+    const defs = suiteToJSONSchema({...suite, Key: t.keyof(t.iface([], {a: "string"}))}).$defs;
+    assert.deepEqual(defs.Direction, {enum: ["UP", "DOWN"]});
+    assert.deepEqual(defs.Pair, {type: "array", prefixItems: [{type: "string"}, {type: "number"}], minItems: 1});
+    assert.deepEqual(defs.Row, {type: "array", prefixItems: [{type: "string"}], items: {type: "number"}, minItems: 1});
+    assert.deepEqual(defs.Ends, {type: "array", items: {anyOf: [{type: "number"}, {type: "string"}]}, minItems: 1});
+    assert.deepEqual(defs.Flags, {type: "array", prefixItems: [{type: "string"}, {type: "number"}],
+      items: {type: "boolean"}, minItems: 1});
+    createCheckers({Flags: suite.Flags}).Flags.check(["a"]);
+    assert.deepEqual(defs.Percent, {allOf: [{type: "integer"}, {minimum: 0, maximum: 100}]});
+    assert.deepEqual(defs.Code, {allOf: [{type: "string"}, {minLength: 3, maxLength: 3, minItems: 3, maxItems: 3},
+      {pattern: "^[A-Z]+$"}, {format: "email"}]});
+    assert.deepEqual(defs.Up, {const: "UP"});
+    assert.deepEqual(defs.Key, {enum: ["a"]});
+    assert.deepEqual(suiteToJSONSchema({Pair: suite.Pair}, {strict: true}).$defs.Pair,
+      {type: "array", prefixItems: [{type: "string"}, {type: "number"}], items: false, minItems: 1});
+  });
+
+  it("should convert a single type with the types it refers to", () => {
+    const {Shape} = createCheckers(shapes);
+    const {Square, Rectangle, Circle} = suiteToJSONSchema(shapes).$defs;
+    assert.deepEqual(typeToJSONSchema(Shape.getType(), shapes), {
+      $schema: dialect,
+      anyOf: [{$ref: "#/$defs/Square"}, {$ref: "#/$defs/Rectangle"}, {$ref: "#/$defs/Circle"}],
+      $defs: {Square, Rectangle, Circle},
+    });
+    assert.deepEqual(typeToJSONSchema(t.array("number")), {$schema: dialect, type: "array", items: {type: "number"}});
+  });
+
+  it("should convert generic and utility types", () => {
+    const suite = {
+      User: t.iface([], {name: "string", age: t.opt("number")}),
+      List: t.generic(["T"], t.iface([], {value: "T", next: t.opt(t.name("List", ["T"]))})),
+      Users: t.name("List", ["User"]),
+      Update: t.partial("User"),
+      Names: t.record(t.union(t.lit("a"), t.lit("b")), "string"),
+    };
+    const defs = suiteToJSONSchema(suite).$defs;
+    assert.deepEqual(defs.Users, {$ref: "#/$defs/List%3CUser%3E"});
+    assert.deepEqual(defs["List<User>"], {type: "object",
+      properties: {value: {$ref: "#/$defs/User"}, next: {$ref: "#/$defs/List%3CUser%3E"}}, required: ["value"]});
+    assert.deepEqual(defs.List, {type: "object",
+      properties: {value: {}, next: {$ref: "#/$defs/List%3Cany%3E"}}, required: ["value"]});
+    assert.deepEqual(defs.Update, {type: "object", properties: {name: {type: "string"}, age: {type: "number"}}});
+    assert.deepEqual(defs.Names, {type: "object", properties: {a: {type: "string"}, b: {type: "string"}},
+      required: ["a", "b"]});
+  });
+
+  it("should fail for types that JSON can't represent", () => {
+    assert.throws(() => suiteToJSONSchema({A: t.map("string", "number")}),
+      /^Map, Set or Promise type can't be represented in JSON Schema$/);
+    assert.throws(() => suiteToJSONSchema({A: t.iface([], {a: "symbol"})}),
+      /^Type symbol can't be represented in JSON Schema$/);
+    assert.throws(() => typeToJSONSchema(t.func("void")), /^Function type can't be represented/);
+    assert.throws(() => suiteToJSONSchema({A: t.name("B")}), /^Unknown type B$/);
+  });
+
+  it("should convert JSON Schema documents to suites", () => {
+    const suite = jsonSchemaToSuite({
+      $schema: dialect,
+      type: "array",
+      items: {$ref: "#/$defs/Shape"},
+      $defs: {
+        Shape: {oneOf: [{$ref: "#/$defs/Square"}, {$ref: "#/$defs/Circle"}]},
+        Square: {type: "object", properties: {kind: {const: "square"}, size: {type: "number", minimum: 0}},
+          required: ["kind", "size"], additionalProperties: false},
+        Circle: {type: "object", properties: {kind: {const: "circle"}, radius: {type: "number"}},
+          required: ["kind", "radius"]},
+        Color: {enum: ["red", "green"]},
+        Point: {type: "array", prefixItems: [{type: "number"}, {type: "number"}], items: false, minItems: 2},
+        Labeled: {allOf: [{$ref: "#/$defs/Square"}, {properties: {label: {type: "string"}}}]},
+        Counts: {type: "object", properties: {total: {type: "integer"}}, additionalProperties: {type: "integer"}},
+        Config: {properties: {name: {type: ["string", "null"], minLength: 1}, timeout: {default: 30}}},
+      },
+    });
+    const {Root, Shape, Color, Point, Labeled, Counts, Config} = createCheckers(suite);
+
+    Root.check([{kind: "square", size: 1}, {kind: "circle", radius: 2}]);
+    assert.throws(() => Root.check([{kind: "square", size: -1}]), /value\[0\].size is less than 0$/);
+    assert.isFalse(Shape.test({kind: "circle"}));
+    assert.isFalse(Shape.strictTest({kind: "square", size: 1, color: "red"}));
+    Color.check("red");
+    assert.isFalse(Color.test("blue"));
+    Point.strictCheck([1, 2]);
+    assert.isFalse(Point.test([1]));
+    assert.isFalse(Point.strictTest([1, 2, 3]));
+    Labeled.check({kind: "square", size: 1, label: "a"});
+    assert.isFalse(Labeled.test({kind: "square", size: 1, label: 1}));
+    Counts.check({total: 2, a: 1, b: 1});
+    assert.isFalse(Counts.test({total: 2, a: 0.5}));
+    Config.check({name: null});
+    assert.isFalse(Config.test({name: ""}));
+    assert.deepEqual(Config.applyDefaults({}), {timeout: 30});
+
+    // Schemas exported from a suite convert back to equivalent types.
+    const {Shape: Shape2} = createCheckers(jsonSchemaToSuite(suiteToJSONSchema(shapes)));
+    Shape2.check({kind: "rectangle", width: 1, height: 2});
+    assert.isFalse(Shape2.test({kind: "rectangle", width: 1}));
+    const {Code} = createCheckers(jsonSchemaToSuite(suiteToJSONSchema({
+      Code: t.intersection("string", t.length(2, 3)), Percent: t.intersection(t.integer(), t.range(0, 100)),
+    })));
+    Code.check("ab");
+    assert.throws(() => Code.check("abcd"), /^value has length greater than 3$/);
+    assert.isFalse(Code.test(["a", "b"]));
+  });
+
+  it("should apply keywords of schemas without a type only to values of their types", () => {
+    const {Min, Mixed, Items, Props} = createCheckers(jsonSchemaToSuite({$defs: {
+      Min: {minimum: 5, exclusiveMaximum: 10},
+      Mixed: {maxLength: 2, minItems: 1, pattern: "^a", uniqueItems: true},
+      Items: {items: {type: "string"}},
+      Props: {properties: {a: {type: "number"}}, required: ["a"]},
+    }}));
+    for (const value of ["x", true, null, [], {}]) { Min.check(value); }
+    Min.check(5);
+    assert.throws(() => Min.check(3), /^value is less than 5$/);
+    assert.throws(() => Min.check(10), /^value is not less than 10$/);
+
+    Mixed.check("ab");
+    Mixed.check([1, "abc"]);
+    Mixed.check(7);
+    assert.throws(() => Mixed.check("abc"), /^value has length greater than 2$/);
+    assert.throws(() => Mixed.check("b"), /^value does not match/);
+    assert.throws(() => Mixed.check([]), /^value has length less than 1$/);
+    assert.throws(() => Mixed.check([1, 1]), /^value has duplicate items$/);
+
+    for (const value of ["x", 1, {}, ["a"]]) { Items.check(value); }
+    assert.isFalse(Items.test([1]));
+    for (const value of ["x", 1, [], {a: 1}]) { Props.check(value); }
+    assert.isFalse(Props.test({}));
+    assert.isFalse(Props.test({a: "1"}));
+  });
+
+  it("should report unsupported JSON Schema keywords", () => {
+    const schema = {
+      $defs: {
+        Item: {type: "object", properties: {id: {not: {type: "string"}}}, patternProperties: {"^x-": true}},
+        Named: {type: "object", properties: {name: {type: "string"}}, additionalProperties: {type: "number"}},
+        Ref: {$ref: "other.json#/$defs/Item"},
+        Odd: {type: "integer", if: {minimum: 0}},
+      },
+    };
+    assert.throws(() => jsonSchemaToSuite(schema), "Unsupported JSON Schema keywords: " +
+      "#/$defs/Item/patternProperties, #/$defs/Item/properties/id/not, #/$defs/Named/additionalProperties, " +
+      "#/$defs/Ref/$ref, #/$defs/Odd/if");
+    const {Item, Named, Odd} = createCheckers(jsonSchemaToSuite(schema, {ignoreUnsupported: true}));
+    Item.check({id: 1, x: 2});
+    // An additionalProperties schema which declared properties don't satisfy is left out.
+    Named.check({name: "a", foo: 1});
+    assert.isFalse(Named.test({name: 1}));
+    Odd.check(-1);
+    assert.deepEqual(Object.keys(jsonSchemaToSuite({$defs: {}, title: "Empty"})), []);
+    assert.deepEqual(Object.keys(jsonSchemaToSuite(true, {rootName: "Any"})), ["Any"]);
+  });
+});
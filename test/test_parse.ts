@@ -0,0 +1,134 @@
+import {assert} from "chai";
+import {createCheckers, ParseError, parseDeclarations, serializeSuite} from "../lib";
+import * as t from "../lib/types";
+import shapes from "./fixtures/shapes-ti";
+
+// Asserts that the source parses to the same types as the expected suite.
+function assertParses(source: string, expected: t.ITypeSuite) {
+  assert.deepEqual(serializeSuite(parseDeclarations(source)), serializeSuite(expected));
+}
+
+// Asserts that parsing the source fails with the given message and location.
+function assertParseError(source: string, message: string, line: number, column: number) {
+  assert.throws(() => parseDeclarations(source), ParseError, `${message} at line ${line}, column ${column}`);
+}
+
+describe("parse", () => {
+  it("should parse interfaces and type aliases", () => {
+    assertParses(`
+      interface Square { kind: "square"; size: number }
+      interface Rectangle {
+        kind: 'rectangle';
+        width: number;
+        height: number;
+      }
+      export interface Circle { kind: "circle", radius: number }
+      // A comment, and a leading "|".
+      export type Shape =
+        | Square | Rectangle   /* another comment */
+        | Circle;
+    `, shapes);
+
+    assertParses(`
+      interface Base { readonly id: string; "quoted-name"?: number; 1: boolean }
+      declare interface Item extends Base, Other {
+        tags: string[][];
+        pair: [x: number, y?: number];
+        row: [string, ...number[]];
+        ends: [...Array<string>, number?];
+        value: (string | null) & Other["value"];
+        nested: { readonly: boolean; new: -1 | 0x10 | 1.5e3 | true };
+        [key: string]: any;
+        readonly [index: number]: string;
+      }
+    `, {
+      Base: t.iface([], {"id": "string", "quoted-name": t.opt("number"), "1": "boolean"}),
+      Item: t.iface(["Base", "Other"], {
+        tags: t.array(t.array("string")),
+        pair: t.tuple(t.labeled("x", "number"), t.labeled("y", t.opt("number"))),
+        row: t.tuple("string", t.rest(t.array("number"))),
+        ends: t.tuple(t.rest(t.array("string")), t.opt("number")),
+        value: t.intersection(t.union("string", "null"), t.indexed("Other", "value")),
+        nested: t.iface([], {readonly: "boolean", new: t.union(t.lit(-1), t.lit(16), t.lit(1500), t.lit(true))}),
+      }, [t.index("string", "any"), t.index("number", "string")]),
+    });
+  });
+
+  it("should parse enums, methods and generic types", () => {
+    assertParses(`
+      enum Direction { Up, Down = 5, Left, Right = "RIGHT" }
+      const enum Flag { "A" = -1, B }
+      interface Greeter {
+        greet(name: string, loud?: boolean): string;
+        greet(): void;
+        callback?(err: Error | null): void;
+        handler: (event: Event) => (() => void) | null;
+        dir: Direction.Up;
+      }
+    `, {
+      Direction: t.enumtype({Up: 0, Down: 5, Left: 6, Right: "RIGHT"}),
+      Flag: t.enumtype({A: -1, B: 0}),
+      Greeter: t.iface([], {
+        greet: t.overloads(t.func("string", t.param("name", "string"), t.param("loud", "boolean", true)),
+          t.func("void")),
+        callback: t.opt(t.func("void", t.param("err", t.union("Error", "null")))),
+        handler: t.func(t.union(t.func("void"), "null"), t.param("event", "Event")),
+        dir: t.enumlit("Direction", "Up"),
+      }),
+    });
+
+    assertParses(`
+      type List<T> = { value: T; next?: List<T> };
+      interface Page<T extends object> { items: ReadonlyArray<T>; meta: Record<string, Set<T>> }
+      type Users = Page<User>;
+      type Update = Partial<Readonly<User>> | Required<Pick<User, "id" | "name">> | Omit<User, 'id'>;
+      type Async = Promise<Map<string, number>>;
+      type Keys = keyof User;
+    `, {
+      List: t.generic(["T"], t.iface([], {value: "T", next: t.opt(t.name("List", ["T"]))})),
+      Page: t.generic(["T"], t.iface([], {items: t.array("T"), meta: t.record("string", t.set("T"))})),
+      Users: t.name("Page", ["User"]),
+      Update: t.union(t.partial(t.readonly("User")), t.required(t.pick("User", "id", "name")), t.omit("User", "id")),
+      Async: t.promise(t.map("string", "number")),
+      Keys: t.keyof("User"),
+    });
+  });
+
+  it("should produce suites for createCheckers()", () => {
+    const {Config} = createCheckers(parseDeclarations(`
+      type Level = "debug" | "info";
+      interface Config {
+        name: string;
+        level?: Level;
+        limits: [min: number, max: number];
+        [option: string]: unknown;
+      }
+    `));
+    Config.check({name: "a", limits: [1, 2], other: true});
+    assert.throws(() => Config.check({name: "a", level: "warn", limits: [1, 2]}),
+      /value.level is not a Level; value.level is none of "debug", "info"/);
+    assert.throws(() => Config.check({name: "a", limits: [1]}), /value.limits\[max\] is not a number/);
+  });
+
+  it("should report unsupported syntax with its location", () => {
+    assertParseError("type A = `a${string}`;", "Template literal types are not supported", 1, 10);
+    assertParseError("interface A {\n  [K in Keys]: string;\n}",
+      "Computed property names and mapped types are not supported", 2, 3);
+    assertParseError("type A<T> = T extends string ? 1 : 2;", "Conditional types are not supported", 1, 15);
+    assertParseError("type A = typeof x;", "Type queries are not supported", 1, 10);
+    assertParseError("interface A {\n  f(...args: string[]): void;\n}", "Rest parameters are not supported", 2, 5);
+    assertParseError("interface A { <T>(x: T): T }", "Call signatures are not supported", 1, 15);
+    assertParseError("import {A} from './a';", "Declarations other than interfaces, types and enums are not supported",
+      1, 1);
+    assertParseError("enum E { A = 'a', B }", "Enum member must have an initializer", 1, 19);
+    assertParseError("interface A { a: string; a: number }", "Duplicate property a", 1, 26);
+    assertParseError("type A = string;\ntype A = number;", "Duplicate declaration of A", 2, 6);
+    assertParseError("type A = B.C.D;", "Qualified names other than enum members are not supported", 1, 13);
+    assertParseError("type A = B.C<D>;", "Qualified names other than enum members are not supported", 1, 13);
+    assertParseError("type A = Pick<B, string>;", "Pick requires a type and literal keys", 1, 10);
+    assertParseError("type A = Array<B, C>;", "Array requires 1 type argument(s)", 1, 10);
+    assertParseError("interface A {\n  a: string\n  b: # }", `Unexpected character "#"`, 3, 6);
+    assertParseError("interface A { a: string", "Unexpected end of input", 1, 24);
+    assertParseError("type A = { a: string ;", "Unexpected end of input", 1, 23);
+  });
+});
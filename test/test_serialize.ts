@@ -0,0 +1,116 @@
+import {assert} from "chai";
+import {createCheckers, deserializeSuite, serializeSuite} from "../lib";
+import * as t from "../lib/types";
+import enumUnionTI from "./fixtures/enum-union-ti";
+import greetTI from "./fixtures/greet-ti";
+import indexSignaturesTI from "./fixtures/index-signatures-ti";
+import intersectionTI from "./fixtures/intersection-ti";
+import recursiveTI from "./fixtures/recursive-ti";
+import sample from "./fixtures/sample-ti";
+import shapes from "./fixtures/shapes-ti";
+
+// Serializes a suite to JSON text, and returns the suite deserialized from it.
+function roundTrip(suite: t.ITypeSuite): t.ITypeSuite {
+  const result = deserializeSuite(JSON.stringify(serializeSuite(suite)));
+  assert.deepEqual(serializeSuite(result), serializeSuite(suite));
+  return result;
+}
+
+describe("serialize", () => {
+  it("should serialize suites as JSON", () => {
+    assert.deepEqual(serializeSuite(indexSignaturesTI), {
+      version: 1,
+      types: {
+        SquareConfig: {kind: "iface", bases: [],
+          props: [{name: "color", type: "string"}, {name: "width", type: "number", optional: true}],
+          indexSignatures: [{keyType: "string", valueType: "any"}]},
+        IndexSignatures: {kind: "iface", bases: [],
+          props: [{name: "data", type: {kind: "iface", bases: [], props: [],
+            indexSignatures: [{keyType: "string", valueType: {kind: "array", type: "number"}}]}}],
+          indexSignatures: []},
+      },
+    });
+    for (const suite of [enumUnionTI, greetTI, indexSignaturesTI, intersectionTI, recursiveTI, sample, shapes]) {
+      roundTrip(suite);
+    }
+    const {Shape} = createCheckers(roundTrip(shapes));
+    Shape.check({kind: "circle", radius: 1});
+    assert.throws(() => Shape.check({kind: "square", size: "1"}), /value.size is not a number/);
+
+    // Labels of rest elements are kept, like those of other tuple elements.
+    const row = t.tuple(t.labeled("first", "string"), t.labeled("rest", t.rest(t.array("number"))));
+    assert.deepEqual(serializeSuite({Row: row}).types.Row, {kind: "tuple", elements: [
+      {kind: "labeled", label: "first", type: "string"},
+      {kind: "labeled", label: "rest", type: {kind: "rest", type: {kind: "array", type: "number"}}},
+    ]});
+    assert.equal((roundTrip({Row: row}).Row as t.TTuple).restLabel, "rest");
+  });
+
+  it("should serialize all kinds of types", () => {
+    const suite = roundTrip({
+      Direction: t.enumtype({Up: "UP", Down: "DOWN"}),
+      Item: t.iface(["Base"], {
+        id: t.intersection(t.integer(), t.range(1, null)),
+        code: t.intersection("string", t.length(2, 4), t.pattern(/^[a-z]+$/i)),
+        email: t.opt(t.format("email")),
+        size: t.opt(t.union(t.lit(1), t.lit(true), t.lit(null), t.lit(undefined), t.lit("big")), {default: 1}),
+        up: t.enumlit("Direction", "Up"),
+        point: t.tuple(t.labeled("x", "number"), t.rest(t.array("number")), t.opt("string")),
+        key: t.template("item_", "number"),
+        tags: t.map("string", t.set(t.promise("Date"))),
+        at: t.instance("Date", t.iface([], {})),
+        greet: t.overloads(t.func("string", t.param("name", "string", true)), t.func("void")),
+        [t.indexKey]: "any",
+      }, [t.index("number", t.opt("string"))]),
+      Base: t.iface([], {kind: t.keyof("Direction")}),
+      Update: t.partial(t.required(t.readonly("Item"))),
+      Partial: t.intersection(t.pick("Item", "id"), t.omit("Item", "id"), t.indexed("Item", "id")),
+      Names: t.record(t.union(t.lit("a"), t.lit("b")), "number"),
+      List: t.generic(["T"], t.iface([], {value: "T", next: t.opt(t.name("List", ["T"]))})),
+      Numbers: t.name("List", ["number"]),
+      Strings: t.generic(["T"], "T").instantiate("string"),
+      Number: t.basicTypes.number,
+    });
+    const {Item, Update, Numbers, Strings} = createCheckers(suite, {classes: {Date}, checkArity: true});
+    const point = [1, 2, 3, "a"];
+    const item = {kind: "Up", id: 1, code: "ab", up: "UP", point, key: "item_1", tags: new Map(), at: new Date(),
+      greet: () => "hi"};
+    Item.check(item);
+    assert.deepEqual(Item.applyDefaults(item), {...item, size: 1});
+    assert.throws(() => Item.check({...item, id: 0}), /value.id is less than 1/);
+    assert.throws(() => Item.check({...item, code: "a1"}), /value.code does not match \/\^\[a-z\]\+\$\/i/);
+    assert.throws(() => Item.check({...item, email: "a"}), /value.email is not a valid email/);
+    assert.throws(() => Item.check({...item, size: 2}), /value.size is none of/);
+    assert.throws(() => Item.check({...item, point: ["a"]}), /value.point/);
+    assert.throws(() => Item.check({...item, kind: "Left"}), /value.kind is not a keyof Direction/);
+    assert.throws(() => Item.check({...item, 1: 1}), /value.1 is not a string/);
+    assert.throws(() => Item.check({...item, greet: (a: any, b: any) => a}), /value.greet requires 2/);
+    Update.check({});
+    Numbers.check({value: 1, next: {value: 2}});
+    assert.throws(() => Numbers.check({value: 1, next: {value: "2"}}), /value.next.value is not a number/);
+    Strings.check("a");
+    assert.equal(suite.Number, t.basicTypes.number);
+  });
+
+  it("should serialize infinite bounds as missing ones", () => {
+    const {Below, Short} = createCheckers(roundTrip({
+      Below: t.intersection("number", t.range(-Infinity, 5)),
+      Short: t.intersection("string", t.length(0, Infinity)),
+    }));
+    Below.check(-1);
+    assert.throws(() => Below.check(6), /^value is greater than 5$/);
+    Short.check("abc");
+    const {Range} = createCheckers(deserializeSuite({version: 1, types: {Range: {kind: "range", min: null, max: 5}}}));
+    Range.check(-1);
+  });
+
+  it("should fail for types that can't be serialized", () => {
+    assert.throws(() => serializeSuite({A: t.refine("number", (v) => v > 0, "is not positive")}),
+      /^Refinement can't be serialized/);
+    assert.throws(() => serializeSuite({A: new t.BasicType((v) => true, "is invalid")}),
+      /^Custom basic type can't be serialized$/);
+    assert.throws(() => deserializeSuite({version: 2, types: {}}), /^Unsupported version of serialized suite: 2$/);
+    assert.throws(() => deserializeSuite({version: 1, types: {A: {kind: "foo"}}}),
+      /^Unknown kind of serialized type: foo$/);
+  });
+});